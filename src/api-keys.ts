@@ -0,0 +1,94 @@
+/**
+ * Secret key checks and resolution
+ */
+
+import { createHash } from "node:crypto";
+import { ChaindocError } from "./errors";
+import type { ChaindocEnvironment, KeyMode, SecretKeyProvider } from "./types";
+
+const KEY_PREFIX = "sk_";
+
+/**
+ * Environments each key mode may be sent to
+ */
+const KEY_MODE_ENVIRONMENTS: Record<KeyMode, ChaindocEnvironment[]> = {
+  live: ["production"],
+  test: ["staging", "development"],
+};
+
+/**
+ * Whether a key is a live (`sk_live_`) or test (`sk_test_`) key
+ * Keys with neither prefix return undefined and are not checked against the environment
+ */
+export function keyMode(secretKey: string): KeyMode | undefined {
+  if (secretKey.startsWith(`${KEY_PREFIX}live_`)) {
+    return "live";
+  }
+  if (secretKey.startsWith(`${KEY_PREFIX}test_`)) {
+    return "test";
+  }
+  return undefined;
+}
+
+/**
+ * Environment used when none is configured: staging for test keys, otherwise production
+ */
+export function defaultEnvironment(secretKey: string): ChaindocEnvironment {
+  return keyMode(secretKey) === "test" ? "staging" : "production";
+}
+
+/**
+ * Check the key's format, and that its mode matches `environment` when one is given
+ */
+export function assertSecretKey(
+  secretKey: unknown,
+  environment?: ChaindocEnvironment
+): asserts secretKey is string {
+  if (!secretKey) {
+    throw new ChaindocError("secretKey is required");
+  }
+  if (typeof secretKey !== "string" || !secretKey.startsWith(KEY_PREFIX)) {
+    throw new ChaindocError('secretKey must start with "sk_"');
+  }
+  const mode = keyMode(secretKey);
+  if (
+    mode &&
+    environment &&
+    !KEY_MODE_ENVIRONMENTS[mode].includes(environment)
+  ) {
+    throw new ChaindocError(
+      `A ${mode} secretKey cannot be used with the ${environment} environment`
+    );
+  }
+}
+
+/**
+ * Resolve the key for one call, calling the provider if there is one
+ */
+export async function resolveSecretKey(
+  credentials: string | SecretKeyProvider,
+  environment?: ChaindocEnvironment
+): Promise<string> {
+  if (typeof credentials === "string") {
+    return credentials;
+  }
+  let secretKey: unknown;
+  try {
+    secretKey = await credentials();
+  } catch (error) {
+    throw new ChaindocError(
+      `secretKey provider failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  assertSecretKey(secretKey, environment);
+  return secretKey;
+}
+
+/**
+ * Short hash identifying a key, e.g. to partition caches; the key cannot be recovered from it
+ */
+export function keyFingerprint(secretKey: string): string {
+  return createHash("sha256").update(secretKey).digest("hex").slice(0, 16);
+}
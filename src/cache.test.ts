@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { MemoryCacheStore } from "./cache";
+import { Chaindoc } from "./chaindoc";
+import { FakeChaindocServer } from "./testing";
+
+function setup() {
+  const fake = new FakeChaindocServer();
+  const store = new MemoryCacheStore();
+  const chaindoc = new Chaindoc({
+    secretKey: "sk_test_fake",
+    fetch: fake.fetch,
+    cache: { store },
+  });
+  return { fake, store, chaindoc };
+}
+
+async function createVersion(chaindoc: Chaindoc) {
+  const { media } = await chaindoc.media.upload([
+    { data: new TextEncoder().encode("%PDF-1.4\n"), filename: "a.pdf" },
+  ]);
+  const { document } = await chaindoc.documents.create({
+    name: "Contract",
+    description: "",
+    media: media[0]!,
+    meta: [],
+    hashtags: [],
+    status: "published",
+  });
+  return document.versions[0]!.uuid;
+}
+
+describe("response cache", () => {
+  it("serves a repeated read from the cache", async () => {
+    const { fake, chaindoc } = setup();
+
+    const first = await chaindoc.getApiKeyInfo();
+    const second = await chaindoc.getApiKeyInfo();
+
+    expect(second).toEqual(first);
+    expect(fake.requests.filter((r) => r.path === "/api/v1/me")).toHaveLength(
+      1
+    );
+  });
+
+  it("does not share entries between API keys", async () => {
+    const { fake, chaindoc } = setup();
+
+    await chaindoc.getApiKeyInfo();
+    await chaindoc.withOptions({ secretKey: "sk_test_other" }).getApiKeyInfo();
+
+    expect(fake.requests.filter((r) => r.path === "/api/v1/me")).toHaveLength(
+      2
+    );
+  });
+
+  it("caches verification status only once it is final", async () => {
+    const { fake, chaindoc } = setup();
+    const versionId = await createVersion(chaindoc);
+    const reads = () =>
+      fake.requests.filter((r) => r.path.endsWith("/verification")).length;
+
+    await chaindoc.documents.getVerificationStatus(versionId);
+    await chaindoc.documents.getVerificationStatus(versionId);
+    expect(reads()).toBe(2);
+
+    fake.setVersionTxStatus(versionId, "verified");
+    await chaindoc.documents.getVerificationStatus(versionId);
+    await chaindoc.documents.getVerificationStatus(versionId);
+    expect(reads()).toBe(3);
+  });
+
+  it("returns copies that callers can modify", async () => {
+    const { chaindoc } = setup();
+
+    const first = await chaindoc.getApiKeyInfo();
+    const original = structuredClone(first);
+    Object.assign(first, { userId: -1 });
+
+    expect(await chaindoc.getApiKeyInfo()).toEqual(original);
+  });
+});
+
+describe("MemoryCacheStore", () => {
+  it("drops expired entries", async () => {
+    const store = new MemoryCacheStore();
+    store.set("key", "value", 10);
+    expect(store.get("key")).toBe("value");
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(store.get("key")).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it("evicts the least recently used entry", () => {
+    const store = new MemoryCacheStore(2);
+    store.set("a", 1, 60_000);
+    store.set("b", 2, 60_000);
+    store.get("a");
+    store.set("c", 3, 60_000);
+
+    expect(store.get("a")).toBe(1);
+    expect(store.get("b")).toBeUndefined();
+    expect(store.get("c")).toBe(3);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Response cache for reads whose result can no longer change
+ *
+ * Entries are namespaced by API URL and by a hash of the API key, so tenants
+ * never see each other's responses. Writes invalidate entries by tag; the
+ * invalidation time is kept in the store too, so it reaches every process
+ * sharing a store such as Redis.
+ */
+
+import { createHash } from "node:crypto";
+import { ChaindocError } from "./errors";
+import type { CacheConfig, CacheStore, CacheableRead } from "./types";
+
+const DEFAULT_MAX_ENTRIES = 1000;
+const KEY_PREFIX = "chaindoc";
+
+const DEFAULT_TTL: Record<CacheableRead, number> = {
+  apiKeyInfo: 60 * 1000,
+  verificationStatus: 10 * 60 * 1000,
+  requestStatus: 10 * 60 * 1000,
+};
+
+/**
+ * Default store, kept in process memory and evicting the least recently used entry
+ * Values are copied in and out, so callers cannot modify cached responses
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  constructor(private maxEntries = DEFAULT_MAX_ENTRIES) {
+    if (maxEntries < 1) {
+      throw new ChaindocError("maxEntries must be at least 1");
+    }
+  }
+
+  get(key: string): unknown {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Maps iterate in insertion order; re-inserting marks the entry as recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry.value);
+  }
+
+  set(key: string, value: unknown, ttlMs: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value: structuredClone(value),
+      expiresAt: Date.now() + ttlMs,
+    });
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * How an API module caches one read
+ */
+export interface CachePolicy<T> {
+  read: CacheableRead;
+  /**
+   * Identifies the response among reads of the same kind, e.g. the request ID
+   */
+  key: string;
+  /**
+   * Whether a response is final and may be stored
+   */
+  when: (data: T) => boolean;
+  /**
+   * Tags that writes invalidate the entry by, e.g. `document:<id>`
+   */
+  tags?: (data: T) => string[];
+}
+
+interface CacheEntry {
+  data: unknown;
+  /** When the read was sent; invalidations from then on discard the entry */
+  sentAt: number;
+  tags: string[];
+}
+
+export class ResponseCache {
+  private store: CacheStore;
+  private ttl: Record<CacheableRead, number>;
+  private namespace: string;
+
+  /**
+   * @param onError Store failures are reported here and treated as a miss
+   */
+  constructor(
+    config: CacheConfig,
+    baseUrl: string,
+    private onError: (error: unknown) => void
+  ) {
+    this.store = config.store ?? new MemoryCacheStore();
+    this.ttl = { ...DEFAULT_TTL };
+    for (const [read, ttlMs] of Object.entries(config.ttl ?? {})) {
+      if (ttlMs !== undefined) {
+        if (ttlMs < 0) {
+          throw new ChaindocError(`cache.ttl.${read} must not be negative`);
+        }
+        this.ttl[read as CacheableRead] = ttlMs;
+      }
+    }
+    this.namespace = `${KEY_PREFIX}:${hash(baseUrl)}`;
+  }
+
+  /**
+   * @param scope Fingerprint of the API key, so tenants never share entries
+   */
+  async get<T>(scope: string, policy: CachePolicy<T>): Promise<T | undefined> {
+    if (!this.ttl[policy.read]) {
+      return undefined;
+    }
+    const key = this.entryKey(scope, policy);
+    try {
+      const entry = (await this.store.get(key)) as CacheEntry | undefined;
+      if (!entry) {
+        return undefined;
+      }
+      for (const tag of entry.tags) {
+        const invalidatedAt = await this.store.get(this.tagKey(tag));
+        if (
+          typeof invalidatedAt === "number" &&
+          invalidatedAt >= entry.sentAt
+        ) {
+          await this.store.delete(key);
+          return undefined;
+        }
+      }
+      return entry.data as T;
+    } catch (error) {
+      this.onError(error);
+      return undefined;
+    }
+  }
+
+  async set<T>(
+    scope: string,
+    policy: CachePolicy<T>,
+    data: T,
+    sentAt: number
+  ): Promise<void> {
+    const ttlMs = this.ttl[policy.read];
+    if (!ttlMs || !policy.when(data)) {
+      return;
+    }
+    const entry: CacheEntry = {
+      data,
+      sentAt,
+      tags: policy.tags?.(data) ?? [],
+    };
+    try {
+      await this.store.set(this.entryKey(scope, policy), entry, ttlMs);
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+
+  /**
+   * Discard entries with any of `tags`, for every API key
+   */
+  async invalidate(tags: string[]): Promise<void> {
+    const invalidatedAt = Date.now();
+    // Entries older than the longest TTL have expired anyway
+    const ttlMs = Math.max(...Object.values(this.ttl));
+    if (!ttlMs) {
+      return;
+    }
+    try {
+      await Promise.all(
+        tags.map((tag) =>
+          this.store.set(this.tagKey(tag), invalidatedAt, ttlMs)
+        )
+      );
+    } catch (error) {
+      this.onError(error);
+    }
+  }
+
+  private entryKey(
+    scope: string,
+    policy: { read: CacheableRead; key: string }
+  ): string {
+    return `${this.namespace}:${scope}:${policy.read}:${policy.key}`;
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.namespace}:tag:${tag}`;
+  }
+}
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex").slice(0, 16);
+}
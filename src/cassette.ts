@@ -0,0 +1,280 @@
+/**
+ * HTTP record/replay cassettes for integration tests
+ *
+ * Record mode forwards requests to the API and saves every interaction to a
+ * JSON file, with secrets and KYC personal data redacted. Replay mode answers
+ * requests from that file without touching the network.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { CassetteError, ChaindocError } from "./errors";
+import { REDACTED_KEYS, redact, redactHeaders } from "./redaction";
+import type {
+  CassetteConfig,
+  CassetteFile,
+  CassetteInteraction,
+  CassetteMatching,
+  CassetteMode,
+  FetchFunction,
+  HttpMethod,
+} from "./types";
+
+type RecordedRequest = CassetteInteraction["request"];
+
+const CASSETTE_VERSION = 1;
+const DEFAULT_MATCHING: CassetteMatching = "strict";
+
+/**
+ * Headers describing the body as sent on the wire rather than as stored
+ */
+const DROPPED_RESPONSE_HEADERS = [
+  "content-encoding",
+  "content-length",
+  "transfer-encoding",
+  "set-cookie",
+];
+
+function isJson(headers: Record<string, string>): boolean {
+  return !!headers["content-type"]?.includes("application/json");
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Serialize with sorted object keys, so bodies compare regardless of key order
+ */
+function canonicalJson(value: unknown): string | undefined {
+  return JSON.stringify(value, (_key, entry: unknown) =>
+    entry && typeof entry === "object" && !Array.isArray(entry)
+      ? Object.fromEntries(
+          Object.entries(entry).sort(([a], [b]) => (a < b ? -1 : 1))
+        )
+      : entry
+  );
+}
+
+function stripQuery(path: string): string {
+  return path.split("?")[0] ?? path;
+}
+
+function describe(request: RecordedRequest): string {
+  return `${request.method} ${request.path}`;
+}
+
+export class Cassette {
+  private mode: CassetteMode;
+  private path: string;
+  private matching: CassetteMatching;
+  private redactKeys: Set<string>;
+  private recordedAt = new Date().toISOString();
+  private recorded: CassetteInteraction[] = [];
+  private saving: Promise<void> = Promise.resolve();
+  private loaded: Promise<CassetteInteraction[]> | undefined;
+  private cursor = 0;
+  private played = new Set<number>();
+
+  /**
+   * @param transport - Sends requests in record mode
+   */
+  constructor(config: CassetteConfig, private transport: FetchFunction) {
+    if (config.mode !== "record" && config.mode !== "replay") {
+      throw new ChaindocError('cassette.mode must be "record" or "replay"');
+    }
+    if (!config.path) {
+      throw new ChaindocError("cassette.path is required");
+    }
+    this.mode = config.mode;
+    this.path = config.path;
+    this.matching = config.match ?? DEFAULT_MATCHING;
+    this.redactKeys = new Set([...REDACTED_KEYS, ...(config.redactKeys ?? [])]);
+  }
+
+  /**
+   * fetch-compatible transport used by HttpClient in place of its fetch
+   */
+  readonly fetch = (url: string, init: RequestInit = {}): Promise<Response> =>
+    this.mode === "record" ? this.record(url, init) : this.replay(url, init);
+
+  private async record(url: string, init: RequestInit): Promise<Response> {
+    const request = this.describeRequest(url, init);
+    const response = await this.transport(url, init);
+    const text = await response.text();
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      if (!DROPPED_RESPONSE_HEADERS.includes(name)) {
+        headers[name] = value;
+      }
+    });
+
+    this.recorded.push({
+      request,
+      response: {
+        status: response.status,
+        headers,
+        ...(text
+          ? {
+              body: isJson(headers)
+                ? redact(parseJson(text), this.redactKeys)
+                : text,
+            }
+          : {}),
+      },
+    });
+
+    // Save after every interaction so a failing test still leaves a usable cassette
+    const saving = this.saving.then(() => this.save());
+    this.saving = saving.catch(() => undefined);
+    await saving;
+
+    return new Response(text || null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  private async replay(url: string, init: RequestInit): Promise<Response> {
+    init.signal?.throwIfAborted();
+    // Streamed upload bodies are not recorded; release the underlying files
+    if (init.body instanceof ReadableStream) {
+      await init.body.cancel();
+    }
+
+    const request = this.describeRequest(url, init);
+    const interactions = await this.load();
+    const index =
+      this.matching === "strict"
+        ? this.matchStrict(request, interactions)
+        : this.matchLoose(request, interactions);
+
+    const { status, headers, body } = interactions[index]!.response;
+    const text =
+      body === undefined
+        ? null
+        : isJson(headers)
+        ? JSON.stringify(body)
+        : String(body);
+    return new Response(text, { status, headers });
+  }
+
+  /**
+   * The next interaction in recorded order must match exactly
+   */
+  private matchStrict(
+    request: RecordedRequest,
+    interactions: CassetteInteraction[]
+  ): number {
+    const recorded = interactions[this.cursor]?.request;
+    if (!recorded) {
+      throw new CassetteError(
+        `No recorded interaction left for ${describe(request)}`,
+        this.path
+      );
+    }
+    if (
+      recorded.method !== request.method ||
+      recorded.path !== request.path ||
+      ("body" in request &&
+        canonicalJson(recorded.body) !== canonicalJson(request.body))
+    ) {
+      throw new CassetteError(
+        `${describe(request)} does not match interaction ${
+          this.cursor + 1
+        } (${describe(recorded)})`,
+        this.path
+      );
+    }
+    return this.cursor++;
+  }
+
+  /**
+   * The first unplayed interaction with the same method and path
+   * Once all of them have been played the last one is repeated, so polling
+   * loops replay regardless of how many times they check
+   */
+  private matchLoose(
+    request: RecordedRequest,
+    interactions: CassetteInteraction[]
+  ): number {
+    const path = stripQuery(request.path);
+    const candidates = interactions.flatMap((interaction, index) =>
+      interaction.request.method === request.method &&
+      stripQuery(interaction.request.path) === path
+        ? [index]
+        : []
+    );
+    const index =
+      candidates.find((candidate) => !this.played.has(candidate)) ??
+      candidates[candidates.length - 1];
+    if (index === undefined) {
+      throw new CassetteError(
+        `No recorded interaction for ${describe(request)}`,
+        this.path
+      );
+    }
+    this.played.add(index);
+    return index;
+  }
+
+  private describeRequest(url: string, init: RequestInit): RecordedRequest {
+    const { pathname, search } = new URL(url);
+    const headers = redactHeaders(
+      (init.headers ?? {}) as Record<string, string>
+    );
+    return {
+      method: (init.method ?? "GET") as HttpMethod,
+      path: `${pathname}${search}`,
+      headers,
+      ...(typeof init.body === "string"
+        ? { body: redact(parseJson(init.body), this.redactKeys) }
+        : {}),
+    };
+  }
+
+  private load(): Promise<CassetteInteraction[]> {
+    this.loaded ??= (async () => {
+      let file: CassetteFile;
+      try {
+        file = JSON.parse(await readFile(this.path, "utf8")) as CassetteFile;
+      } catch (error) {
+        throw new CassetteError(
+          `Cannot read cassette ${this.path}: ${(error as Error).message}`,
+          this.path
+        );
+      }
+      if (!Array.isArray(file?.interactions)) {
+        throw new CassetteError(
+          `Cassette ${this.path} has no interactions`,
+          this.path
+        );
+      }
+      return file.interactions;
+    })();
+    return this.loaded;
+  }
+
+  private async save(): Promise<void> {
+    const file: CassetteFile = {
+      version: CASSETTE_VERSION,
+      recordedAt: this.recordedAt,
+      interactions: this.recorded,
+    };
+    try {
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(this.path, `${JSON.stringify(file, null, 2)}\n`);
+    } catch (error) {
+      throw new CassetteError(
+        `Cannot write cassette ${this.path}: ${(error as Error).message}`,
+        this.path
+      );
+    }
+  }
+}
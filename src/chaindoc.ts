@@ -45,11 +45,26 @@ import { Signatures } from "./modules/signatures";
 import { Embedded } from "./modules/embedded";
 import { Media } from "./modules/media";
 import { Kyc } from "./modules/kyc";
-import type { ChaindocConfig, ApiKeyInfo, HealthCheckResponse } from "./types";
+import { Reminders } from "./modules/reminders";
+import { Webhooks } from "./modules/webhooks";
+import { MemoryWorkflowStorage, Workflows } from "./modules/workflows";
+import { apiKeyInfo, healthCheckResponse } from "./response-schemas";
+import type {
+  ChaindocConfig,
+  ApiKeyInfo,
+  CallOptions,
+  HealthCheckResponse,
+  ScopedClientOptions,
+  SigningWorkflowStorage,
+} from "./types";
 
 export class Chaindoc {
+  private config: ChaindocConfig;
+
   private client: HttpClient;
 
+  private workflowStorage: SigningWorkflowStorage;
+
   /**
    * Documents API
    * Create, update, and verify documents
@@ -80,27 +95,96 @@ export class Chaindoc {
    */
   public readonly kyc: Kyc;
 
-  constructor(config: ChaindocConfig) {
-    this.client = new HttpClient(config);
+  /**
+   * Reminders API
+   * Remind signers of pending requests through your own channel
+   */
+  public readonly reminders: Reminders;
+
+  /**
+   * Webhooks API
+   * Verify and parse incoming webhook deliveries
+   */
+  public readonly webhooks: Webhooks;
+
+  /**
+   * Signing Workflows API
+   * Ordered signer groups, each started once the previous group completes
+   */
+  public readonly workflows: Workflows;
+
+  /**
+   * @param client Set by `withOptions()`
+   * @param parent Set by `withOptions()`; its workflow storage and locks are shared
+   * @internal
+   */
+  constructor(config: ChaindocConfig, client?: HttpClient, parent?: Chaindoc) {
+    this.config = config;
+    this.client = client ?? new HttpClient(config);
+    this.workflowStorage =
+      parent?.workflowStorage ??
+      config.workflowStorage ??
+      new MemoryWorkflowStorage();
 
     this.documents = new Documents(this.client);
     this.signatures = new Signatures(this.client);
     this.embedded = new Embedded(this.client);
     this.media = new Media(this.client);
     this.kyc = new Kyc(this.client);
+    this.reminders = new Reminders(this.signatures);
+    this.webhooks = new Webhooks(config.webhookSecret);
+    this.workflows = new Workflows(
+      this.signatures,
+      this.embedded,
+      this.workflowStorage,
+      parent?.workflows
+    );
+  }
+
+  /**
+   * Create a client with its own key, headers or timeout
+   *
+   * The scoped client shares this client's transport (fetch, dispatcher and
+   * cassette), middleware, telemetry and logger, its workflow storage, and its
+   * rate limiters, kept per key, so scoped clients with the same key share one.
+   * It is cheap to create, e.g. per tenant per request.
+   *
+   * @example
+   * ```typescript
+   * const chaindoc = new Chaindoc({ secretKey: process.env.CHAINDOC_SECRET_KEY! });
+   *
+   * app.use((req, res, next) => {
+   *   req.chaindoc = chaindoc.withOptions({
+   *     secretKey: () => vault.getSecretKey(req.tenantId),
+   *     headers: { 'X-Tenant-Id': req.tenantId },
+   *   });
+   *   next();
+   * });
+   * ```
+   */
+  withOptions(options: ScopedClientOptions): Chaindoc {
+    return new Chaindoc(this.config, this.client.withOptions(options), this);
   }
 
   /**
    * Get current API key information
+   * Served from the response cache when one is configured
    */
-  async getApiKeyInfo(): Promise<ApiKeyInfo> {
-    return this.client.get<ApiKeyInfo>("/api/v1/me");
+  async getApiKeyInfo(options?: CallOptions): Promise<ApiKeyInfo> {
+    return this.client.get<ApiKeyInfo>("/api/v1/me", {
+      ...options,
+      schema: apiKeyInfo,
+      cache: { read: "apiKeyInfo", key: "me", when: () => true },
+    });
   }
 
   /**
    * Health check
    */
-  async healthCheck(): Promise<HealthCheckResponse> {
-    return this.client.get<HealthCheckResponse>("/api/v1/health");
+  async healthCheck(options?: CallOptions): Promise<HealthCheckResponse> {
+    return this.client.get<HealthCheckResponse>("/api/v1/health", {
+      ...options,
+      schema: healthCheckResponse,
+    });
   }
 }
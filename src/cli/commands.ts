@@ -0,0 +1,611 @@
+/**
+ * CLI subcommands
+ * Each command wraps one or two SDK calls; `run` returns the data printed by `--json`
+ */
+
+import { stat } from "node:fs/promises";
+import type { ParseArgsConfig } from "node:util";
+import type { Chaindoc } from "../chaindoc";
+import type {
+  AccessEmail,
+  AccessRole,
+  AccessType,
+  ApiKeyInfo,
+  DocumentResponse,
+  DocumentStatus,
+  EmbeddedSessionResponse,
+  HealthCheckResponse,
+  Media,
+  MediaUploadResponse,
+  ShareKycResponse,
+  SignRequestStatus,
+  SignatureRequest,
+  SignatureRequestOutcome,
+  SignatureRequestResponse,
+  SignatureRequestStatus,
+  VerifyFileResult,
+} from "../types";
+import { UsageError, formatFields, formatTable } from "./output";
+
+export type OptionsConfig = NonNullable<ParseArgsConfig["options"]>;
+export type OptionValues = Record<
+  string,
+  string | boolean | Array<string | boolean> | undefined
+>;
+
+export interface CommandContext {
+  chaindoc: Chaindoc;
+  args: string[];
+  options: OptionValues;
+  /**
+   * Progress messages, written to stderr so stdout stays parseable
+   */
+  log(message: string): void;
+}
+
+export interface Command<T = unknown> {
+  /** Subcommand words, e.g. `sign status` */
+  name: string;
+  usage: string;
+  description: string;
+  options?: OptionsConfig;
+  run(context: CommandContext): Promise<T>;
+  /** Human-readable output */
+  format(result: T): string;
+}
+
+const VERSION_HASH_PATTERN = /^(0x)?[0-9a-f]{64}$/i;
+const DOCUMENT_STATUSES: DocumentStatus[] = [
+  "draft",
+  "published",
+  "archived",
+  "pending_signature",
+  "signed",
+];
+const ACCESS_TYPES: AccessType[] = ["private", "public", "restricted", "team"];
+const ACCESS_LEVELS: AccessEmail["level"][] = ["read", "write"];
+const SIGN_REQUEST_STATUSES: SignRequestStatus[] = [
+  "pending",
+  "completed",
+  "expired",
+  "cancelled",
+];
+const DEFAULT_LIST_LIMIT = 20;
+
+// ============================================================================
+// Argument helpers
+// ============================================================================
+
+function optionalString(
+  options: OptionValues,
+  name: string
+): string | undefined {
+  const value = options[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+function requiredString(options: OptionValues, name: string): string {
+  const value = optionalString(options, name);
+  if (!value) {
+    throw new UsageError(`--${name} is required`);
+  }
+  return value;
+}
+
+function stringList(options: OptionValues, name: string): string[] {
+  const value = options[name];
+  return Array.isArray(value)
+    ? value.filter((entry): entry is string => typeof entry === "string")
+    : [];
+}
+
+function requiredArg(args: string[], index: number, name: string): string {
+  const value = args[index];
+  if (!value) {
+    throw new UsageError(`<${name}> is required`);
+  }
+  return value;
+}
+
+function oneOf<T extends string>(
+  name: string,
+  value: string,
+  allowed: readonly T[]
+): T;
+function oneOf<T extends string>(
+  name: string,
+  value: string | undefined,
+  allowed: readonly T[]
+): T | undefined;
+function oneOf<T extends string>(
+  name: string,
+  value: string | undefined,
+  allowed: readonly T[]
+): T | undefined {
+  if (value !== undefined && !allowed.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${allowed.join(", ")}`);
+  }
+  return value as T | undefined;
+}
+
+function positiveInteger(
+  name: string,
+  value: string | undefined
+): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Split `value[:level]`, the level defaulting to read
+ */
+function withLevel(
+  name: string,
+  entry: string
+): [string, AccessEmail["level"]] {
+  const separator = entry.lastIndexOf(":");
+  if (separator === -1) {
+    return [entry, "read"];
+  }
+  return [
+    entry.slice(0, separator),
+    oneOf(name, entry.slice(separator + 1), ACCESS_LEVELS),
+  ];
+}
+
+function accessEmails(options: OptionValues): AccessEmail[] | undefined {
+  const entries = stringList(options, "access-email");
+  return entries.length
+    ? entries.map((entry) => {
+        const [email, level] = withLevel("access-email", entry);
+        return { email, level };
+      })
+    : undefined;
+}
+
+function accessRoles(options: OptionValues): AccessRole[] | undefined {
+  const entries = stringList(options, "role");
+  return entries.length
+    ? entries.map((entry) => {
+        const [roleId, level] = withLevel("role", entry);
+        if (!/^\d+$/.test(roleId)) {
+          throw new UsageError("--role must start with a numeric role id");
+        }
+        return { roleId: Number(roleId), level };
+      })
+    : undefined;
+}
+
+function parseDate(name: string, value: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new UsageError(`--${name} must be a date, e.g. 2025-12-31`);
+  }
+  return date;
+}
+
+async function uploadOne(
+  context: CommandContext,
+  path: string
+): Promise<Media> {
+  const { media } = await context.chaindoc.media.uploadFromPath(path);
+  const [first] = media;
+  if (!first) {
+    throw new Error(`Upload of ${path} returned no media`);
+  }
+  return first;
+}
+
+async function isFile(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function formatDocument(result: DocumentResponse): string {
+  const { document } = result;
+  const version = document.currentVersion ?? document.versions[0];
+  return formatFields([
+    ["Document", result.documentId],
+    ["Version", version?.uuid],
+    ["Name", version?.name],
+    ["Status", version?.status],
+    ["Access", document.accessType],
+  ]);
+}
+
+function formatRequestStatus(status: SignatureRequestStatus): string {
+  return [
+    formatFields([
+      ["Request", status.requestId],
+      ["Status", status.status],
+      ["Signed", `${status.signedCount}/${status.totalSigners}`],
+      ["Due", status.dueDate],
+    ]),
+    "",
+    formatTable(
+      ["SIGNER", "SIGNED AT"],
+      status.signers.map((signer) => [
+        signer.signerEmail,
+        signer.signedAt ?? "pending",
+      ])
+    ),
+  ].join("\n");
+}
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+const upload: Command<MediaUploadResponse> = {
+  name: "upload",
+  usage: "upload <files...>",
+  description: "Upload files and print their media keys",
+  async run({ chaindoc, args }) {
+    if (args.length === 0) {
+      throw new UsageError("<files...> is required");
+    }
+    return chaindoc.media.uploadFromPath(args);
+  },
+  format: ({ media }) =>
+    formatTable(
+      ["NAME", "KEY", "URL"],
+      media.map((item) => [item.name, item.key, item.url])
+    ),
+};
+
+const DOCUMENT_OPTIONS: OptionsConfig = {
+  name: { type: "string" },
+  description: { type: "string" },
+  file: { type: "string" },
+  hashtag: { type: "string", multiple: true },
+  status: { type: "string" },
+  "for-signing": { type: "boolean" },
+};
+
+const docCreate: Command<DocumentResponse> = {
+  name: "doc create",
+  usage:
+    "doc create --name <name> --file <path> [--description <text>] [--hashtag <#tag>...] [--status draft|published] [--for-signing] [--access <type>] [--access-email <email[:read|write]>...] [--role <id[:read|write]>...]",
+  description: "Upload a file and create a document from it",
+  options: {
+    ...DOCUMENT_OPTIONS,
+    access: { type: "string" },
+    "access-email": { type: "string", multiple: true },
+    role: { type: "string", multiple: true },
+  },
+  async run(context) {
+    const { options } = context;
+    const name = requiredString(options, "name");
+    const file = requiredString(options, "file");
+    const status =
+      oneOf("status", optionalString(options, "status"), DOCUMENT_STATUSES) ??
+      "draft";
+    const accessType = oneOf(
+      "access",
+      optionalString(options, "access"),
+      ACCESS_TYPES
+    );
+    const emails = accessEmails(options);
+    const roles = accessRoles(options);
+
+    return context.chaindoc.documents.create({
+      name,
+      description: optionalString(options, "description") ?? "",
+      media: await uploadOne(context, file),
+      meta: [],
+      hashtags: stringList(options, "hashtag"),
+      status,
+      isForSigning: options["for-signing"] === true || undefined,
+      accessType,
+      accessEmails: emails,
+      accessRoles: roles,
+    });
+  },
+  format: formatDocument,
+};
+
+const docUpdate: Command<DocumentResponse> = {
+  name: "doc update",
+  usage:
+    "doc update <documentId> --name <name> --file <path> [--description <text>] [--hashtag <#tag>...] [--status draft|published] [--for-signing]",
+  description: "Upload a file as a new version of a document",
+  options: DOCUMENT_OPTIONS,
+  async run(context) {
+    const { args, options } = context;
+    const documentId = requiredArg(args, 0, "documentId");
+    const name = requiredString(options, "name");
+    const file = requiredString(options, "file");
+    const status =
+      oneOf("status", optionalString(options, "status"), DOCUMENT_STATUSES) ??
+      "draft";
+
+    return context.chaindoc.documents.update(documentId, {
+      name,
+      description: optionalString(options, "description") ?? "",
+      media: await uploadOne(context, file),
+      meta: [],
+      hashtags: stringList(options, "hashtag"),
+      status,
+      isForSigning: options["for-signing"] === true || undefined,
+    });
+  },
+  format: formatDocument,
+};
+
+const docRights: Command<DocumentResponse> = {
+  name: "doc rights",
+  usage:
+    "doc rights <documentId> --access <type> [--access-email <email[:read|write]>...] [--role <id[:read|write]>...]",
+  description: "Change who can access a document",
+  options: {
+    access: { type: "string" },
+    "access-email": { type: "string", multiple: true },
+    role: { type: "string", multiple: true },
+  },
+  async run({ chaindoc, args, options }) {
+    const documentId = requiredArg(args, 0, "documentId");
+    const accessType = oneOf(
+      "access",
+      requiredString(options, "access"),
+      ACCESS_TYPES
+    );
+    return chaindoc.documents.updateRights(documentId, {
+      accessType,
+      accessEmails: accessEmails(options),
+      accessRoles: accessRoles(options),
+    });
+  },
+  format: formatDocument,
+};
+
+const verify: Command<VerifyFileResult> = {
+  name: "verify",
+  usage: "verify <file|hash> [--certificate-hash <hash>]",
+  description: "Check whether a file or version hash is anchored in blockchain",
+  options: {
+    "certificate-hash": { type: "string" },
+  },
+  async run({ chaindoc, args, options }) {
+    const input = requiredArg(args, 0, "file|hash");
+    const verifyOptions = {
+      certificateHash: optionalString(options, "certificate-hash"),
+    };
+    if (await isFile(input)) {
+      return chaindoc.documents.verifyFile(input, verifyOptions);
+    }
+    if (!VERSION_HASH_PATTERN.test(input)) {
+      throw new UsageError(`${input} is neither a file nor a version hash`);
+    }
+    return chaindoc.documents.verifyHash(input, verifyOptions);
+  },
+  format: (result) =>
+    formatFields([
+      ["Outcome", result.outcome],
+      ["Version hash", result.versionHash],
+      ...(result.outcome === "not_found"
+        ? []
+        : ([
+            ["Document", result.response.document?.id],
+            ["Name", result.response.document?.name],
+            ["Transaction", result.response.verification?.txHash],
+            ["Verified at", result.response.verification?.verifiedAt],
+          ] as Array<[string, unknown]>)),
+    ]),
+};
+
+const signRequest: Command<SignatureRequestResponse> = {
+  name: "sign request",
+  usage:
+    "sign request --version <versionId> --to <email>... --deadline <date> [--message <text>] [--embedded] [--kyc]",
+  description: "Send a document version for signing",
+  options: {
+    version: { type: "string" },
+    to: { type: "string", multiple: true },
+    deadline: { type: "string" },
+    message: { type: "string" },
+    embedded: { type: "boolean" },
+    kyc: { type: "boolean" },
+  },
+  async run({ chaindoc, options }) {
+    const versionId = requiredString(options, "version");
+    const deadline = parseDate("deadline", requiredString(options, "deadline"));
+    const recipients = stringList(options, "to").map((email) => ({ email }));
+    if (recipients.length === 0) {
+      throw new UsageError("--to is required");
+    }
+    return chaindoc.signatures.createRequest({
+      versionId,
+      recipients,
+      deadline,
+      message: optionalString(options, "message"),
+      embeddedFlow: options.embedded === true || undefined,
+      isKycRequired: options.kyc === true || undefined,
+    });
+  },
+  format: ({ signatureRequest, recipients }) =>
+    formatFields([
+      ["Request", signatureRequest.id],
+      ["UUID", signatureRequest.uuid],
+      ["Status", signatureRequest.status],
+      ["Due", signatureRequest.dueDate],
+      ["Recipients", recipients.map((signer) => signer.signerEmail).join(", ")],
+    ]),
+};
+
+const signStatus: Command<SignatureRequestStatus | SignatureRequestOutcome> = {
+  name: "sign status",
+  usage: "sign status <requestId> [--watch] [--timeout <minutes>]",
+  description:
+    "Show who has signed; --watch polls until the request is completed, expired or cancelled",
+  options: {
+    watch: { type: "boolean" },
+    timeout: { type: "string" },
+  },
+  async run({ chaindoc, args, options, log }) {
+    const requestId = requiredArg(args, 0, "requestId");
+    if (!options.watch) {
+      return chaindoc.signatures.getRequestStatus(requestId);
+    }
+    const timeoutMinutes = positiveInteger(
+      "timeout",
+      optionalString(options, "timeout")
+    );
+    return chaindoc.signatures.waitForCompletion(requestId, {
+      timeoutMs:
+        timeoutMinutes === undefined ? Infinity : timeoutMinutes * 60 * 1000,
+      onProgress: ({ status, signedCount, totalSigners }) =>
+        log(`${status}: ${signedCount}/${totalSigners} signed`),
+    });
+  },
+  format: (result) =>
+    formatRequestStatus("outcome" in result ? result.status : result),
+};
+
+const signList: Command<SignatureRequest[]> = {
+  name: "sign list",
+  usage:
+    "sign list [--status pending|completed|expired|cancelled] [--limit <n>] [--signer]",
+  description:
+    "List your signature requests; --signer lists requests you were asked to sign",
+  options: {
+    status: { type: "string" },
+    limit: { type: "string" },
+    signer: { type: "boolean" },
+  },
+  async run({ chaindoc, options }) {
+    const status = oneOf(
+      "status",
+      optionalString(options, "status"),
+      SIGN_REQUEST_STATUSES
+    );
+    const limit =
+      positiveInteger("limit", optionalString(options, "limit")) ??
+      DEFAULT_LIST_LIMIT;
+    const iterator = options.signer
+      ? chaindoc.signatures.iterateSignatures({ status })
+      : chaindoc.signatures.iterateMyRequests({ status });
+    return iterator.toArray({ limit });
+  },
+  format: (requests) =>
+    formatTable(
+      ["ID", "UUID", "STATUS", "SIGNED", "DUE"],
+      requests.map((request) => [
+        request.id,
+        request.uuid,
+        request.status,
+        `${request.signers.filter((signer) => signer.signedAt).length}/${
+          request.signers.length
+        }`,
+        request.dueDate,
+      ])
+    ),
+};
+
+const sessionCreate: Command<EmbeddedSessionResponse> = {
+  name: "session create",
+  usage:
+    "session create --email <email> --document <documentId> [--request <signatureRequestId>] [--return-url <url>]",
+  description: "Create an embedded signing session",
+  options: {
+    email: { type: "string" },
+    document: { type: "string" },
+    request: { type: "string" },
+    "return-url": { type: "string" },
+  },
+  async run({ chaindoc, options }) {
+    return chaindoc.embedded.createSession({
+      email: requiredString(options, "email"),
+      metadata: {
+        documentId: requiredString(options, "document"),
+        signatureRequestId: optionalString(options, "request"),
+        returnUrl: optionalString(options, "return-url"),
+      },
+    });
+  },
+  format: (session) =>
+    formatFields([
+      ["Session", session.sessionId],
+      ["Email", session.email],
+      ["Status", session.status],
+      ["Expires", session.expiresAt],
+    ]),
+};
+
+const kycShare: Command<ShareKycResponse> = {
+  name: "kyc share",
+  usage: "kyc share --email <email> [--share-token <token>]",
+  description: "Share a user's KYC data with your account",
+  options: {
+    email: { type: "string" },
+    "share-token": { type: "string" },
+  },
+  async run({ chaindoc, options }) {
+    return chaindoc.kyc.share({
+      email: requiredString(options, "email"),
+      shareToken: optionalString(options, "share-token"),
+    });
+  },
+  format: (result) =>
+    formatFields([
+      ["Email", result.email],
+      ["Shared at", result.sharedAt],
+      ["Verified", result.kycData?.verified],
+      ["Review status", result.kycData?.reviewStatus],
+    ]),
+};
+
+const whoami: Command<ApiKeyInfo> = {
+  name: "whoami",
+  usage: "whoami",
+  description: "Show the API key in use",
+  run: ({ chaindoc }) => chaindoc.getApiKeyInfo(),
+  format: (info) =>
+    formatFields([
+      ["Key", `${info.keyName} (#${info.keyId})`],
+      ["User", info.userId],
+      ["Access", info.accessLevel],
+      ["Active", info.isActive],
+      ["Last used", info.lastUsedAt],
+    ]),
+};
+
+const health: Command<HealthCheckResponse> = {
+  name: "health",
+  usage: "health",
+  description: "Check API availability and key validity",
+  run: ({ chaindoc }) => chaindoc.healthCheck(),
+  format: (result) =>
+    formatFields([
+      ["Status", result.status],
+      ["API key valid", result.apiKeyValid],
+      ["Time", result.timestamp],
+    ]),
+};
+
+export const COMMANDS: Command[] = [
+  upload,
+  docCreate,
+  docUpdate,
+  docRights,
+  verify,
+  signRequest,
+  signStatus,
+  signList,
+  sessionCreate,
+  kycShare,
+  whoami,
+  health,
+];
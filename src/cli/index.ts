@@ -0,0 +1,142 @@
+#!/usr/bin/env node
+/**
+ * `chaindoc` command-line interface
+ *
+ * Usage: chaindoc <command> [arguments] [--json] [--profile <name>] [--environment <env>]
+ */
+
+import { parseArgs } from "node:util";
+import { Chaindoc } from "../chaindoc";
+import type { Command, OptionValues, OptionsConfig } from "./commands";
+import { COMMANDS } from "./commands";
+import { EXIT_OK, UsageError, reportError } from "./output";
+import { resolveConfig } from "./profile";
+
+const GLOBAL_OPTIONS: OptionsConfig = {
+  json: { type: "boolean" },
+  profile: { type: "string" },
+  environment: { type: "string" },
+  "base-url": { type: "string" },
+  help: { type: "boolean", short: "h" },
+};
+
+const GLOBAL_USAGE = `Options:
+  --json                 Print results as JSON
+  --profile <name>       Profile from ~/.chaindoc/config.json (or $CHAINDOC_PROFILE)
+  --environment <env>    production, staging or development (or $CHAINDOC_ENVIRONMENT)
+  --base-url <url>       API base URL, overrides the environment (or $CHAINDOC_BASE_URL)
+  -h, --help             Show help
+
+The secret key is read from $CHAINDOC_SECRET_KEY, or from the profile's secretKey.`;
+
+function helpText(): string {
+  const width = Math.max(...COMMANDS.map(({ name }) => name.length));
+  const commands = COMMANDS.map(
+    ({ name, description }) => `  ${name.padEnd(width)}  ${description}`
+  );
+  return [
+    "Usage: chaindoc <command> [arguments] [options]",
+    "",
+    "Commands:",
+    ...commands,
+    "",
+    GLOBAL_USAGE,
+  ].join("\n");
+}
+
+function commandHelp(command: Command): string {
+  return `Usage: chaindoc ${command.usage}\n\n${command.description}\n\n${GLOBAL_USAGE}`;
+}
+
+/**
+ * Match the longest command name against the leading words
+ */
+function findCommand(argv: string[]): Command | undefined {
+  return COMMANDS.filter(({ name }) =>
+    name.split(" ").every((word, index) => argv[index] === word)
+  ).sort((a, b) => b.name.length - a.name.length)[0];
+}
+
+async function main(argv: string[]): Promise<number> {
+  const command = findCommand(argv);
+  if (!command) {
+    const wantsHelp =
+      argv.length === 0 ||
+      argv[0] === "help" ||
+      argv[0] === "--help" ||
+      argv[0] === "-h";
+    if (wantsHelp) {
+      process.stdout.write(`${helpText()}\n`);
+      return EXIT_OK;
+    }
+    return reportError(
+      new UsageError(`Unknown command: ${argv.join(" ")}`),
+      argv.includes("--json"),
+      helpText()
+    );
+  }
+
+  let args: string[];
+  let options: OptionValues;
+  try {
+    const parsed = parseArgs({
+      args: argv.slice(command.name.split(" ").length),
+      options: { ...GLOBAL_OPTIONS, ...command.options },
+      allowPositionals: true,
+    });
+    args = parsed.positionals;
+    options = parsed.values;
+  } catch (error) {
+    return reportError(
+      new UsageError((error as Error).message),
+      argv.includes("--json"),
+      commandHelp(command)
+    );
+  }
+
+  if (options.help) {
+    process.stdout.write(`${commandHelp(command)}\n`);
+    return EXIT_OK;
+  }
+
+  const json = options.json === true;
+  try {
+    const config = await resolveConfig({
+      profile:
+        typeof options.profile === "string" ? options.profile : undefined,
+      environment:
+        typeof options.environment === "string"
+          ? options.environment
+          : undefined,
+      baseUrl:
+        typeof options["base-url"] === "string"
+          ? options["base-url"]
+          : undefined,
+    });
+    const result = await command.run({
+      chaindoc: new Chaindoc(config),
+      args,
+      options,
+      log: (message) => {
+        if (!json) {
+          process.stderr.write(`${message}\n`);
+        }
+      },
+    });
+    process.stdout.write(
+      `${json ? JSON.stringify(result, null, 2) : command.format(result)}\n`
+    );
+    return EXIT_OK;
+  } catch (error) {
+    return reportError(error, json, `Usage: chaindoc ${command.usage}`);
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error: unknown) => {
+    process.exitCode = reportError(error, false);
+  }
+);
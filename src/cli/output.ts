@@ -0,0 +1,98 @@
+/**
+ * CLI output helpers
+ */
+
+import { ChaindocError, ValidationError } from "../errors";
+
+/**
+ * Invalid arguments or configuration; exits with code 2
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+function display(value: unknown): string {
+  if (value === undefined || value === null || value === "") {
+    return "-";
+  }
+  return String(value);
+}
+
+/**
+ * Aligned `label: value` lines
+ */
+export function formatFields(fields: Array<[string, unknown]>): string {
+  const width = Math.max(...fields.map(([label]) => label.length)) + 1;
+  return fields
+    .map(([label, value]) => `${`${label}:`.padEnd(width)} ${display(value)}`)
+    .join("\n");
+}
+
+/**
+ * Left-aligned columns with a header row
+ */
+export function formatTable(headers: string[], rows: unknown[][]): string {
+  if (rows.length === 0) {
+    return "(none)";
+  }
+  const cells = [headers, ...rows.map((row) => row.map(display))];
+  const widths = headers.map((_, column) =>
+    Math.max(...cells.map((row) => (row[column] ?? "").length))
+  );
+  return cells
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column] ?? 0))
+        .join("  ")
+        .trimEnd()
+    )
+    .join("\n");
+}
+
+/**
+ * Print an error to stderr and return the exit code
+ * With `--json` the error is printed as `{ "error": { ... } }`
+ */
+export function reportError(
+  error: unknown,
+  json: boolean,
+  usage?: string
+): number {
+  const exitCode = error instanceof UsageError ? EXIT_USAGE : EXIT_FAILURE;
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (json) {
+    const details =
+      error instanceof ChaindocError
+        ? {
+            statusCode: error.statusCode,
+            requestId: error.requestId,
+            ...(error instanceof ValidationError
+              ? { fieldErrors: error.fieldErrors }
+              : {}),
+          }
+        : {};
+    const name = error instanceof Error ? error.name : "Error";
+    process.stderr.write(
+      `${JSON.stringify({ error: { name, message, ...details } }, null, 2)}\n`
+    );
+    return exitCode;
+  }
+
+  const lines = [`error: ${message}`];
+  if (error instanceof ChaindocError && error.requestId) {
+    lines.push(`request id: ${error.requestId}`);
+  }
+  if (error instanceof UsageError && usage) {
+    lines.push("", usage);
+  }
+  process.stderr.write(`${lines.join("\n")}\n`);
+  return exitCode;
+}
@@ -0,0 +1,105 @@
+/**
+ * CLI credentials and environment
+ *
+ * The secret key comes from `CHAINDOC_SECRET_KEY` or from a named profile in
+ * `~/.chaindoc/config.json`:
+ *
+ * ```json
+ * {
+ *   "default": { "secretKey": "sk_live_...", "environment": "production" },
+ *   "staging": { "secretKey": "sk_test_...", "environment": "staging" }
+ * }
+ * ```
+ */
+
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import type { ChaindocConfig, ChaindocEnvironment } from "../types";
+import { UsageError } from "./output";
+
+export interface CliProfile {
+  secretKey?: string;
+  environment?: ChaindocEnvironment;
+  baseUrl?: string;
+}
+
+export interface ProfileOptions {
+  profile?: string;
+  environment?: string;
+  baseUrl?: string;
+}
+
+const DEFAULT_PROFILE = "default";
+const ENVIRONMENTS: ChaindocEnvironment[] = [
+  "production",
+  "staging",
+  "development",
+];
+
+export function getProfilePath(env: NodeJS.ProcessEnv): string {
+  return env.CHAINDOC_CONFIG ?? join(homedir(), ".chaindoc", "config.json");
+}
+
+async function readProfiles(
+  path: string
+): Promise<Record<string, CliProfile> | undefined> {
+  let text: string;
+  try {
+    text = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+  try {
+    return JSON.parse(text) as Record<string, CliProfile>;
+  } catch {
+    throw new UsageError(`${path} is not valid JSON`);
+  }
+}
+
+/**
+ * Build the SDK config from flags, environment variables and the profile file
+ * Flags win over environment variables, which win over the profile
+ */
+export async function resolveConfig(
+  options: ProfileOptions,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<ChaindocConfig> {
+  const path = getProfilePath(env);
+  const name = options.profile ?? env.CHAINDOC_PROFILE;
+  const profiles = await readProfiles(path);
+  const profile = profiles?.[name ?? DEFAULT_PROFILE];
+
+  if (name && !profile) {
+    throw new UsageError(`Profile "${name}" not found in ${path}`);
+  }
+
+  const secretKey = env.CHAINDOC_SECRET_KEY || profile?.secretKey;
+  if (!secretKey) {
+    throw new UsageError(
+      `No secret key: set CHAINDOC_SECRET_KEY or add a "${
+        name ?? DEFAULT_PROFILE
+      }" profile with secretKey to ${path}`
+    );
+  }
+
+  const environment =
+    options.environment ?? env.CHAINDOC_ENVIRONMENT ?? profile?.environment;
+  if (
+    environment !== undefined &&
+    !ENVIRONMENTS.includes(environment as ChaindocEnvironment)
+  ) {
+    throw new UsageError(
+      `environment must be one of ${ENVIRONMENTS.join(", ")}`
+    );
+  }
+
+  return {
+    secretKey,
+    environment: environment as ChaindocEnvironment | undefined,
+    baseUrl: options.baseUrl ?? env.CHAINDOC_BASE_URL ?? profile?.baseUrl,
+  };
+}
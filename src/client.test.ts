@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest";
+import { Chaindoc } from "./chaindoc";
+import { FakeChaindocServer } from "./testing";
+import type { TelemetryEvent } from "./types";
+
+const PDF = new TextEncoder().encode("%PDF-1.4\n%test\n");
+
+async function createMedia(chaindoc: Chaindoc) {
+  const { media } = await chaindoc.media.upload([
+    { data: PDF, filename: "contract.pdf" },
+  ]);
+  return media[0]!;
+}
+
+describe("retries", () => {
+  it("sends the same idempotency key on every attempt", async () => {
+    const fake = new FakeChaindocServer();
+    const chaindoc = new Chaindoc({
+      secretKey: "sk_test_fake",
+      fetch: fake.fetch,
+      retry: { baseDelayMs: 1 },
+    });
+    const media = await createMedia(chaindoc);
+    fake.injectFault({
+      status: 503,
+      method: "POST",
+      path: "/api/v1/documents",
+      times: 2,
+    });
+
+    await chaindoc.documents.create({
+      name: "Contract",
+      description: "",
+      media,
+      meta: [],
+      hashtags: [],
+      status: "published",
+    });
+
+    const attempts = fake.requests.filter(
+      (request) =>
+        request.method === "POST" && request.path === "/api/v1/documents"
+    );
+    expect(attempts).toHaveLength(3);
+    const keys = new Set(
+      attempts.map((request) => request.headers["idempotency-key"])
+    );
+    expect(keys.size).toBe(1);
+    expect([...keys][0]).toBeTruthy();
+  });
+
+  it("uses a caller-provided idempotency key", async () => {
+    const fake = new FakeChaindocServer();
+    const chaindoc = new Chaindoc({
+      secretKey: "sk_test_fake",
+      fetch: fake.fetch,
+    });
+
+    await chaindoc.media.upload([{ data: PDF, filename: "contract.pdf" }], {
+      idempotencyKey: "upload-1",
+    });
+
+    expect(fake.requests[0]!.headers["idempotency-key"]).toBe("upload-1");
+  });
+
+  it("waits for the Retry-After delay instead of the backoff", async () => {
+    const fake = new FakeChaindocServer();
+    const events: TelemetryEvent[] = [];
+    const chaindoc = new Chaindoc({
+      secretKey: "sk_test_fake",
+      fetch: fake.fetch,
+      retry: { baseDelayMs: 1, maxDelayMs: 1 },
+      telemetry: (event) => events.push(event),
+    });
+    fake.injectFault({
+      status: 429,
+      path: "/api/v1/health",
+      retryAfterSeconds: 1,
+    });
+
+    const startedAt = Date.now();
+    await chaindoc.healthCheck();
+
+    const retry = events.find((event) => event.type === "retry");
+    expect(retry).toMatchObject({ delayMs: 1000, statusCode: 429 });
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(990);
+    expect(fake.requests).toHaveLength(2);
+  });
+
+  it("fails without waiting when Retry-After exceeds maxRetryAfterMs", async () => {
+    const fake = new FakeChaindocServer();
+    const chaindoc = new Chaindoc({
+      secretKey: "sk_test_fake",
+      fetch: fake.fetch,
+      retry: { maxRetryAfterMs: 500 },
+    });
+    fake.injectFault({
+      status: 503,
+      path: "/api/v1/health",
+      retryAfterSeconds: 60,
+    });
+
+    await expect(chaindoc.healthCheck()).rejects.toMatchObject({
+      statusCode: 503,
+    });
+    expect(fake.requests).toHaveLength(1);
+  });
+});
+
+describe("dedupeRequests", () => {
+  function setup() {
+    const fake = new FakeChaindocServer({ latencyMs: 50 });
+    const chaindoc = new Chaindoc({
+      secretKey: "sk_test_fake",
+      fetch: fake.fetch,
+      dedupeRequests: true,
+    });
+    return { fake, chaindoc };
+  }
+
+  it("sends one request for identical GETs in flight", async () => {
+    const { fake, chaindoc } = setup();
+
+    const [first, second] = await Promise.all([
+      chaindoc.healthCheck(),
+      chaindoc.healthCheck(),
+    ]);
+
+    expect(fake.requests).toHaveLength(1);
+    expect(second).toEqual(first);
+    expect(second).not.toBe(first);
+  });
+
+  it("keeps the request going while another caller waits", async () => {
+    const { fake, chaindoc } = setup();
+    const controller = new AbortController();
+
+    const aborted = chaindoc.healthCheck({ signal: controller.signal });
+    const waiting = chaindoc.healthCheck();
+    controller.abort(new Error("caller gave up"));
+
+    await expect(aborted).rejects.toThrow("caller gave up");
+    await expect(waiting).resolves.toMatchObject({ status: "ok" });
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it("aborts the request once every caller has", async () => {
+    const { fake, chaindoc } = setup();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const calls = [
+      chaindoc.healthCheck({ signal: first.signal }),
+      chaindoc.healthCheck({ signal: second.signal }),
+    ];
+    first.abort(new Error("first gave up"));
+    second.abort(new Error("second gave up"));
+
+    await expect(calls[0]).rejects.toThrow("first gave up");
+    await expect(calls[1]).rejects.toThrow("second gave up");
+    // The fake records a request once its latency has passed
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(fake.requests).toHaveLength(0);
+
+    await chaindoc.healthCheck();
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it("passes the error to every caller", async () => {
+    const { fake, chaindoc } = setup();
+    fake.injectFault({ status: 404, path: "/api/v1/health" });
+
+    const results = await Promise.allSettled([
+      chaindoc.healthCheck(),
+      chaindoc.healthCheck(),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      "rejected",
+      "rejected",
+    ]);
+    expect(fake.requests).toHaveLength(1);
+  });
+
+  it("does not share requests between API keys", async () => {
+    const { fake, chaindoc } = setup();
+
+    await Promise.all([
+      chaindoc.healthCheck(),
+      chaindoc.withOptions({ secretKey: "sk_test_other" }).healthCheck(),
+    ]);
+
+    expect(fake.requests).toHaveLength(2);
+  });
+});
@@ -3,29 +3,119 @@
  * Uses native fetch (Node 18+)
  */
 
-import type { ChaindocConfig, ChaindocEnvironment, RetryConfig } from "./types";
-
-export class ChaindocError extends Error {
-  constructor(
-    message: string,
-    public statusCode?: number,
-    public response?: unknown,
-    public isRetryable: boolean = false
-  ) {
-    super(message);
-    this.name = "ChaindocError";
-  }
-}
-
-export interface RequestOptions {
-  method?: "GET" | "POST" | "PUT" | "DELETE";
+import { randomUUID } from "node:crypto";
+import {
+  assertSecretKey,
+  defaultEnvironment,
+  keyFingerprint,
+  resolveSecretKey,
+} from "./api-keys";
+import { ResponseCache } from "./cache";
+import type { CachePolicy } from "./cache";
+import { Cassette } from "./cassette";
+import {
+  ChaindocError,
+  NetworkError,
+  OperationFailedError,
+  ResponseValidationError,
+  TimeoutError,
+  applyErrorContext,
+  createHttpError,
+} from "./errors";
+import { hasHeader, parseRetryAfter, withoutHeader } from "./headers";
+import { createLogger, describeError } from "./logging";
+import {
+  composeMiddleware,
+  createAuthMiddleware,
+  createRetryMiddleware,
+  createTimeoutMiddleware,
+} from "./middleware";
+import { createRateLimitMiddleware } from "./rate-limiter";
+import type { RateLimiter } from "./rate-limiter";
+import { redactHeaders } from "./redaction";
+import { validate } from "./schema";
+import type { Schema } from "./schema";
+import {
+  countBytes,
+  createEmitter,
+  retryReason,
+  routeTemplate,
+} from "./telemetry";
+import type {
+  CallOptions,
+  ChaindocConfig,
+  ChaindocEnvironment,
+  FetchFunction,
+  HttpMethod,
+  Logger,
+  MiddlewareNext,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  RequestBodyType,
+  RequestPriority,
+  ResponseValidationIssue,
+  ResponseValidationMode,
+  RetryConfig,
+  ScopedClientOptions,
+  TelemetryCall,
+  TelemetryEvent,
+} from "./types";
+import type { MultipartBody } from "./uploads";
+
+export interface RequestOptions<T = unknown> {
+  method?: HttpMethod;
   body?: unknown;
+  /**
+   * How `body` is encoded
+   * @default "multipart" for FormData, otherwise "json"
+   */
+  bodyType?: RequestBodyType;
   headers?: Record<string, string>;
   timeout?: number;
   /** Disable retry for this specific request */
   noRetry?: boolean;
+  /**
+   * Overrides of the client's retry config, or `false` to disable retries
+   */
+  retry?: RetryConfig | false;
+  /**
+   * Cancels the request, including pending retries and rate-limit queueing
+   * The call rejects with the signal's reason
+   */
+  signal?: AbortSignal;
+  /**
+   * Queue priority when the rate limiter is saturated
+   * @default "normal"
+   */
+  priority?: RequestPriority;
+  /**
+   * Idempotency key for POST/PUT requests
+   * Generated automatically when omitted and reused across retry attempts
+   */
+  idempotencyKey?: string;
+  /**
+   * Expected response shape, checked according to `responseValidation`
+   */
+  schema?: Schema<T>;
+  /**
+   * Serve the response from the response cache, and store it when final
+   */
+  cache?: CachePolicy<T>;
+  /**
+   * Response cache tags invalidated once the request succeeds
+   */
+  invalidates?: string[];
+  /**
+   * Key already resolved for this call; resolved from the client's `secretKey` when unset
+   */
+  secretKey?: string;
 }
 
+/**
+ * Options of a call whose key has been resolved
+ */
+type KeyedRequestOptions<T> = RequestOptions<T> & { secretKey: string };
+
 const ENVIRONMENT_URLS: Record<ChaindocEnvironment, string> = {
   production: "https://api.chaindoc.io",
   staging: "https://api-demo.chaindoc.io",
@@ -37,49 +127,321 @@ const DEFAULT_TIMEOUT = 30000;
 const DEFAULT_MAX_RETRIES = 3;
 const DEFAULT_BASE_DELAY_MS = 1000;
 const DEFAULT_MAX_DELAY_MS = 10000;
+const DEFAULT_MAX_RETRY_AFTER_MS = 60000;
+const UPLOAD_TIMEOUT_MULTIPLIER = 2;
+const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+const IDEMPOTENT_METHODS: HttpMethod[] = ["POST", "PUT"];
+const REQUEST_ID_HEADER = "x-request-id";
+const DEFAULT_RESPONSE_VALIDATION: ResponseValidationMode = "off";
+
+/**
+ * GET in flight on behalf of one or more callers
+ */
+interface SharedRequest {
+  promise: Promise<unknown>;
+  /** Aborts the request once every caller has aborted */
+  controller: AbortController;
+  /** Callers still waiting; those without a signal wait until it settles */
+  waiting: number;
+  /** Callers validating the response with another schema send their own request */
+  schema?: Schema<unknown>;
+}
+
+/**
+ * The per-call options of a helper's options, to forward to each request it sends
+ */
+export function callOptionsOf(options: CallOptions = {}): CallOptions {
+  const { signal, timeout, headers, retry, priority } = options;
+  return { signal, timeout, headers, retry, priority };
+}
+
+/**
+ * Whether a call overrides how its request is sent or queued
+ * Such calls are never coalesced, since a joiner would get the first caller's settings
+ */
+function hasCallOverrides<T>(options: RequestOptions<T>): boolean {
+  return (
+    options.headers !== undefined ||
+    options.timeout !== undefined ||
+    options.retry !== undefined ||
+    options.priority !== undefined
+  );
+}
+
+/**
+ * Statuses for which server-provided retry hints are honoured
+ */
+const RETRY_AFTER_STATUSES = [429, 503];
+
+/**
+ * Read a human-readable message from an error body
+ * Prefers `error` over `message`, joins validation message arrays
+ */
+function getErrorMessage(data: unknown): string | undefined {
+  if (!data || typeof data !== "object") {
+    return undefined;
+  }
+  const body = data as Record<string, unknown>;
+  if (typeof body.error === "string" && body.error) {
+    return body.error;
+  }
+  if (typeof body.message === "string" && body.message) {
+    return body.message;
+  }
+  if (Array.isArray(body.message)) {
+    return body.message.join("; ");
+  }
+  return undefined;
+}
+
+/**
+ * Summarize validation issues, leading with the first mismatch
+ */
+function formatIssues(issues: ResponseValidationIssue[]): string {
+  const [first] = issues;
+  const location = first?.path || "(root)";
+  const more =
+    issues.length > 1
+      ? ` (and ${issues.length - 1} more issue${issues.length > 2 ? "s" : ""})`
+      : "";
+  return `Unexpected response body: ${location} expected ${first?.expected}, received ${first?.received}${more}`;
+}
+
+/**
+ * Validate a custom base URL and drop its trailing slash
+ */
+function parseBaseUrl(baseUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    throw new ChaindocError(
+      `baseUrl must be an absolute URL, got "${baseUrl}"`
+    );
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") {
+    throw new ChaindocError("baseUrl must use http or https");
+  }
+  if (url.search || url.hash) {
+    throw new ChaindocError("baseUrl must not contain a query or fragment");
+  }
+  return url.href.replace(/\/+$/, "");
+}
+
+function isUnsuccessfulBody(data: unknown): boolean {
+  return (
+    !!data &&
+    typeof data === "object" &&
+    (data as Record<string, unknown>).success === false
+  );
+}
+
+/**
+ * Encode the request body and set a matching Content-Type
+ */
+function encodeBody(request: MiddlewareRequest): {
+  body: RequestInit["body"];
+  headers: Record<string, string>;
+} {
+  switch (request.bodyType) {
+    case "multipart":
+      // fetch sets the multipart boundary itself
+      return {
+        body: request.body as FormData,
+        headers: withoutHeader(request.headers, "Content-Type"),
+      };
+    case "raw":
+      return {
+        body: (typeof request.body === "function"
+          ? request.body()
+          : request.body) as RequestInit["body"],
+        headers: request.headers,
+      };
+    default:
+      return {
+        body: request.body ? JSON.stringify(request.body) : undefined,
+        headers: hasHeader(request.headers, "Content-Type")
+          ? request.headers
+          : { ...request.headers, "Content-Type": "application/json" },
+      };
+  }
+}
 
 export class HttpClient {
+  private config: ChaindocConfig;
+  private environment: ChaindocEnvironment;
+  /** Environment the key mode is checked against; unset with a custom base URL */
+  private keyEnvironment?: ChaindocEnvironment;
   private baseUrl: string;
-  private secretKey: string;
   private timeout: number;
+  private uploadTimeout: number;
   private defaultHeaders: Record<string, string>;
-  private retryConfig: Required<RetryConfig>;
+  private responseValidation: ResponseValidationMode;
+  private transport: FetchFunction;
+  /** Rate limiters by key fingerprint, shared with scoped clients */
+  private rateLimiters?: Map<string, RateLimiter>;
+  private cache?: ResponseCache;
+  /** In-flight GETs by key fingerprint and URL, when `dedupeRequests` is on */
+  private inFlight?: Map<string, SharedRequest>;
+  private handler: MiddlewareNext;
+  private emit: (event: TelemetryEvent) => void;
+  private log: Logger;
+  /** Attempts sent so far per in-flight call */
+  private attempts = new Map<string, number>();
+  /** Key resolved for each in-flight call, sent by the auth middleware */
+  private callKeys = new Map<string, string>();
 
-  constructor(config: ChaindocConfig) {
-    if (!config.secretKey) {
-      throw new ChaindocError("secretKey is required");
+  /**
+   * @param parent Client whose transport, cache and rate limiters are reused
+   */
+  constructor(config: ChaindocConfig, parent?: HttpClient) {
+    const credentials = config.secretKey;
+    const environment =
+      config.environment ??
+      (typeof credentials === "string"
+        ? defaultEnvironment(credentials)
+        : DEFAULT_ENVIRONMENT);
+    // A custom base URL may point anywhere, so only `environment` is checked
+    const keyEnvironment = config.baseUrl ? undefined : environment;
+    // Providers are checked on every call, once their key is known
+    if (typeof credentials !== "function") {
+      assertSecretKey(credentials, keyEnvironment);
     }
 
-    if (!config.secretKey.startsWith("sk_")) {
-      throw new ChaindocError('secretKey must start with "sk_"');
+    this.config = config;
+    this.environment = environment;
+    this.keyEnvironment = keyEnvironment;
+    this.baseUrl = config.baseUrl
+      ? parseBaseUrl(config.baseUrl)
+      : ENVIRONMENT_URLS[environment];
+    if (config.fetch !== undefined && typeof config.fetch !== "function") {
+      throw new ChaindocError("fetch must be a function");
+    }
+    if (
+      config.dispatcher !== undefined &&
+      typeof config.dispatcher?.dispatch !== "function"
+    ) {
+      throw new ChaindocError(
+        "dispatcher must be an undici Dispatcher, e.g. new Agent()"
+      );
     }
-
-    const environment = config.environment ?? DEFAULT_ENVIRONMENT;
-    this.baseUrl = ENVIRONMENT_URLS[environment];
-    this.secretKey = config.secretKey;
     this.timeout = config.timeout ?? DEFAULT_TIMEOUT;
-    this.defaultHeaders = {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${this.secretKey}`,
-      ...config.headers,
-    };
-    this.retryConfig = {
+    this.uploadTimeout =
+      config.uploadTimeout ?? this.timeout * UPLOAD_TIMEOUT_MULTIPLIER;
+    this.defaultHeaders = { ...config.headers };
+    this.responseValidation =
+      config.responseValidation ?? DEFAULT_RESPONSE_VALIDATION;
+    this.transport = parent?.transport ?? HttpClient.createTransport(config);
+    // Rate limits apply per key, so each key gets one limiter for the client
+    // and every client scoped from it
+    this.rateLimiters = parent
+      ? parent.rateLimiters
+      : config.rateLimit && new Map();
+    this.emit = createEmitter(config.telemetry);
+    this.log = createLogger(config.logger, config.logLevel);
+    // Entries are kept per key, so scoped clients share the parent's cache
+    this.cache = parent
+      ? parent.cache
+      : config.cache &&
+        new ResponseCache(config.cache, this.baseUrl, (error) =>
+          this.log.warn("Response cache failed", describeError(error))
+        );
+    this.inFlight = parent
+      ? parent.inFlight
+      : config.dedupeRequests
+      ? new Map()
+      : undefined;
+    const retryConfig: Required<RetryConfig> = {
       maxRetries: config.retry?.maxRetries ?? DEFAULT_MAX_RETRIES,
       baseDelayMs: config.retry?.baseDelayMs ?? DEFAULT_BASE_DELAY_MS,
       maxDelayMs: config.retry?.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+      maxRetryAfterMs:
+        config.retry?.maxRetryAfterMs ?? DEFAULT_MAX_RETRY_AFTER_MS,
     };
+    this.handler = composeMiddleware(
+      [
+        ...(config.middleware ?? []),
+        createRetryMiddleware(retryConfig, (request, error, delayMs) =>
+          this.reportRetry(request, error, delayMs)
+        ),
+        ...(config.rateLimit && this.rateLimiters
+          ? [
+              createRateLimitMiddleware(
+                config.rateLimit,
+                this.rateLimiters,
+                (request) =>
+                  keyFingerprint(this.callKeys.get(request.callId) ?? "")
+              ),
+            ]
+          : []),
+        createTimeoutMiddleware(),
+        createAuthMiddleware((request) => this.callKeys.get(request.callId)),
+      ],
+      (request) => this.send(request)
+    );
+  }
+
+  private static createTransport(config: ChaindocConfig): FetchFunction {
+    const dispatcher = config.dispatcher;
+    const baseFetch: FetchFunction =
+      config.fetch ?? ((url, init) => fetch(url, init));
+    // `dispatcher` is an undici extension to RequestInit
+    const send: FetchFunction = dispatcher
+      ? (url, init) => baseFetch(url, { ...init, dispatcher } as RequestInit)
+      : baseFetch;
+    return config.cassette ? new Cassette(config.cassette, send).fetch : send;
   }
 
   /**
-   * Calculate delay with exponential backoff and jitter
+   * Client with its own key, headers or timeout that shares this client's transport
    */
-  private getRetryDelay(attempt: number): number {
-    const exponentialDelay =
-      this.retryConfig.baseDelayMs * Math.pow(2, attempt);
-    const cappedDelay = Math.min(exponentialDelay, this.retryConfig.maxDelayMs);
-    // Add jitter (±25%)
-    const jitter = cappedDelay * 0.25 * (Math.random() * 2 - 1);
-    return Math.round(cappedDelay + jitter);
+  withOptions(options: ScopedClientOptions): HttpClient {
+    return new HttpClient(
+      {
+        ...this.config,
+        // Pinned, so a scoped key is checked against the parent's environment
+        environment: this.environment,
+        secretKey: options.secretKey ?? this.config.secretKey,
+        headers: { ...this.config.headers, ...options.headers },
+        timeout: options.timeout ?? this.config.timeout,
+      },
+      this
+    );
+  }
+
+  private callOf(request: MiddlewareRequest): TelemetryCall {
+    return {
+      callId: request.callId,
+      method: request.method,
+      endpoint: request.endpoint,
+      route: routeTemplate(request.endpoint),
+    };
+  }
+
+  private reportRetry(
+    request: MiddlewareRequest,
+    error: ChaindocError,
+    delayMs: number
+  ): void {
+    const reason = retryReason(error);
+    this.log.info(
+      `${request.method} ${request.endpoint} failed (${reason}), retrying in ${delayMs}ms`,
+      {
+        callId: request.callId,
+        attempt: request.attempt,
+        ...describeError(error),
+      }
+    );
+    this.emit({
+      type: "retry",
+      timestamp: Date.now(),
+      ...this.callOf(request),
+      attempt: request.attempt,
+      delayMs,
+      reason,
+      statusCode: error.statusCode,
+      error,
+    });
   }
 
   /**
@@ -103,126 +465,414 @@ export class HttpClient {
         "ENOTFOUND",
         "EAI_AGAIN",
       ];
+      // Node's fetch reports the socket error code on `cause`
+      const cause = error.cause as { code?: unknown } | undefined;
       return (
-        networkErrors.some((e) => error.message.includes(e)) ||
-        error.name === "AbortError"
+        networkErrors.some(
+          (e) => error.message.includes(e) || cause?.code === e
+        ) || error.name === "AbortError"
       );
     }
     return false;
   }
 
   /**
-   * Sleep for specified milliseconds
+   * Perform a single HTTP attempt
+   * Innermost handler of the middleware chain
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private async send(request: MiddlewareRequest): Promise<MiddlewareResponse> {
+    const call = this.callOf(request);
+    this.attempts.set(request.callId, request.attempt + 1);
+    this.emit({
+      type: "attempt.start",
+      timestamp: Date.now(),
+      ...call,
+      attempt: request.attempt,
+    });
+
+    const encoded = encodeBody(request);
+    const { headers } = encoded;
+    let { body } = encoded;
+    if (body instanceof ReadableStream) {
+      const contentLength = Object.entries(headers).find(
+        ([name]) => name.toLowerCase() === "content-length"
+      )?.[1];
+      body = countBytes(body, (bytesSent) =>
+        this.emit({
+          type: "upload.progress",
+          timestamp: Date.now(),
+          ...call,
+          attempt: request.attempt,
+          bytesSent,
+          totalBytes:
+            contentLength !== undefined ? Number(contentLength) : undefined,
+        })
+      );
+    }
+
+    let response: Response;
+    try {
+      response = await this.transport(request.url, {
+        method: request.method,
+        headers,
+        body,
+        signal: request.signal,
+        // Required by Node's fetch for streaming request bodies
+        ...(body instanceof ReadableStream ? { duplex: "half" } : {}),
+      });
+    } catch (error) {
+      const context = {
+        method: request.method,
+        endpoint: request.endpoint,
+        attempts: request.attempt + 1,
+      };
+      if (error instanceof Error && error.name === "AbortError") {
+        throw applyErrorContext(new TimeoutError(), context);
+      }
+      if (error instanceof ChaindocError) {
+        throw applyErrorContext(error, context);
+      }
+      // Errors raised while streaming the body, e.g. an oversized upload
+      if (error instanceof Error && error.cause instanceof ChaindocError) {
+        throw applyErrorContext(error.cause, context);
+      }
+      if (error instanceof Error) {
+        throw applyErrorContext(
+          new NetworkError(error.message, this.isRetryableError(error), error),
+          context
+        );
+      }
+      throw applyErrorContext(
+        new ChaindocError("Unknown error occurred"),
+        context
+      );
+    }
+
+    const context = {
+      requestId: response.headers.get(REQUEST_ID_HEADER) ?? undefined,
+      method: request.method,
+      endpoint: request.endpoint,
+      attempts: request.attempt + 1,
+    };
+
+    // Handle empty responses (204 No Content, empty body)
+    if (
+      response.status === 204 ||
+      response.headers.get("content-length") === "0"
+    ) {
+      return {
+        status: response.status,
+        headers: response.headers,
+        data: undefined,
+      };
+    }
+
+    // Only parse JSON if content-type indicates JSON
+    const contentType = response.headers.get("content-type");
+    const data: unknown = contentType?.includes("application/json")
+      ? await response.json().catch(() => undefined)
+      : undefined;
+
+    if (!response.ok) {
+      throw applyErrorContext(
+        createHttpError(
+          getErrorMessage(data) ??
+            `Request failed with status ${response.status}`,
+          response.status,
+          data,
+          this.isRetryableError(null, response.status),
+          RETRY_AFTER_STATUSES.includes(response.status)
+            ? parseRetryAfter(response.headers)
+            : undefined
+        ),
+        context
+      );
+    }
+
+    // Some endpoints report failures in a 2xx body
+    if (isUnsuccessfulBody(data)) {
+      throw applyErrorContext(
+        new OperationFailedError(
+          getErrorMessage(data) ?? "Request was not successful",
+          response.status,
+          data
+        ),
+        context
+      );
+    }
+
+    return { status: response.status, headers: response.headers, data };
   }
 
-  async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
-    const maxAttempts = options.noRetry ? 1 : this.retryConfig.maxRetries + 1;
-    let lastError: ChaindocError | undefined;
+  /**
+   * Check a response body against its schema
+   * Throws in strict mode, logs a warning in warn mode
+   */
+  private validateResponse<T>(
+    schema: Schema<T>,
+    response: MiddlewareResponse,
+    method: HttpMethod,
+    endpoint: string
+  ): void {
+    if (this.responseValidation === "off") {
+      return;
+    }
+    const issues = validate(schema, response.data);
+    if (issues.length === 0) {
+      return;
+    }
 
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(
-        () => controller.abort(),
-        options.timeout ?? this.timeout
+    const error = new ResponseValidationError(
+      formatIssues(issues),
+      issues,
+      response.status,
+      response.data
+    );
+    error.requestId = response.headers.get(REQUEST_ID_HEADER) ?? undefined;
+    if (this.responseValidation === "strict") {
+      throw error;
+    }
+    this.log.warn(`${method} ${endpoint}: ${error.message}`, {
+      requestId: error.requestId,
+      issues,
+    });
+  }
+
+  /**
+   * Serve a read from the response cache, or send it and cache a final response
+   */
+  private async cachedRequest<T>(
+    endpoint: string,
+    options: KeyedRequestOptions<T>,
+    policy: CachePolicy<T>,
+    cache: ResponseCache
+  ): Promise<T> {
+    const scope = keyFingerprint(options.secretKey);
+    const cached = await cache.get(scope, policy);
+    if (cached !== undefined) {
+      this.log.debug(
+        `${options.method ?? "GET"} ${endpoint} served from cache`
       );
+      return cached;
+    }
 
-      try {
-        const response = await fetch(url, {
-          method: options.method ?? "GET",
-          headers: {
-            ...this.defaultHeaders,
-            ...options.headers,
-          },
-          body: options.body ? JSON.stringify(options.body) : undefined,
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        // Handle empty responses (204 No Content, empty body)
-        if (
-          response.status === 204 ||
-          response.headers.get("content-length") === "0"
-        ) {
-          return undefined as T;
-        }
+    const sentAt = Date.now();
+    const data = await this.request<T>(endpoint, {
+      ...options,
+      cache: undefined,
+    });
+    await cache.set(scope, policy, data, sentAt);
+    return data;
+  }
 
-        // Only parse JSON if content-type indicates JSON
-        const contentType = response.headers.get("content-type");
-        const data: unknown = contentType?.includes("application/json")
-          ? await response.json().catch(() => undefined)
-          : undefined;
-
-        if (!response.ok) {
-          const errorMessage =
-            data &&
-            typeof data === "object" &&
-            "message" in data &&
-            typeof data.message === "string"
-              ? data.message
-              : `Request failed with status ${response.status}`;
-          const isRetryable = this.isRetryableError(null, response.status);
-          lastError = new ChaindocError(
-            errorMessage,
-            response.status,
-            data,
-            isRetryable
-          );
-
-          if (isRetryable && attempt < maxAttempts - 1) {
-            await this.sleep(this.getRetryDelay(attempt));
-            continue;
-          }
-
-          throw lastError;
-        }
+  /**
+   * Share one in-flight GET between concurrent calls for the same URL, key,
+   * client headers and timeout
+   *
+   * Only calls without per-call overrides get here, so every caller would have
+   * sent the same request. Every caller gets the result or error; a caller that
+   * aborts stops waiting, and the request itself is aborted only once every
+   * caller has.
+   */
+  private async coalescedRequest<T>(
+    endpoint: string,
+    options: KeyedRequestOptions<T>,
+    inFlight: Map<string, SharedRequest>
+  ): Promise<T> {
+    const { signal } = options;
+    // Scoped clients share the map, so their own headers and timeout are part of the key
+    const key = [
+      keyFingerprint(options.secretKey),
+      this.timeout,
+      JSON.stringify(this.defaultHeaders),
+      `${this.baseUrl}${endpoint}`,
+    ].join(" ");
+    signal?.throwIfAborted();
+
+    const existing = inFlight.get(key);
+    if (existing && existing.schema !== options.schema) {
+      return this.execute(endpoint, options);
+    }
+    const controller = existing?.controller ?? new AbortController();
+    const shared: SharedRequest = existing ?? {
+      promise: this.execute(endpoint, {
+        ...options,
+        signal: controller.signal,
+      }),
+      controller,
+      waiting: 0,
+      schema: options.schema,
+    };
+    // Once settled or abandoned, later calls send a new request
+    const forget = () => {
+      if (inFlight.get(key) === shared) {
+        inFlight.delete(key);
+      }
+    };
+    if (existing) {
+      this.log.debug(`GET ${endpoint} joined an identical request in flight`);
+    } else {
+      inFlight.set(key, shared);
+      shared.promise.then(forget, forget);
+    }
 
-        return data as T;
-      } catch (error) {
-        clearTimeout(timeoutId);
-
-        if (error instanceof ChaindocError) {
-          if (!error.isRetryable || attempt >= maxAttempts - 1) {
-            throw error;
-          }
-          lastError = error;
-          await this.sleep(this.getRetryDelay(attempt));
-          continue;
+    shared.waiting++;
+    const data = await new Promise((resolve, reject) => {
+      const onAbort = () => {
+        shared.waiting--;
+        if (shared.waiting === 0) {
+          forget();
+          shared.controller.abort(signal?.reason);
         }
+        reject(signal?.reason);
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      shared.promise
+        .then(resolve, reject)
+        .finally(() => signal?.removeEventListener("abort", onAbort));
+    });
+    // Each caller that joined gets its own copy to modify
+    return (existing ? structuredClone(data) : data) as T;
+  }
 
-        const isRetryable = this.isRetryableError(error);
-        if (error instanceof Error) {
-          const message =
-            error.name === "AbortError" ? "Request timeout" : error.message;
-          lastError = new ChaindocError(
-            message,
-            undefined,
-            undefined,
-            isRetryable
-          );
-
-          if (isRetryable && attempt < maxAttempts - 1) {
-            await this.sleep(this.getRetryDelay(attempt));
-            continue;
-          }
-
-          throw lastError;
-        }
+  async request<T>(
+    endpoint: string,
+    options: RequestOptions<T> = {}
+  ): Promise<T> {
+    // Resolved once per call and passed down, so a provider is not asked
+    // again by the cache, request coalescing or auth
+    const keyed: KeyedRequestOptions<T> = {
+      ...options,
+      secretKey:
+        options.secretKey ??
+        (await resolveSecretKey(this.config.secretKey, this.keyEnvironment)),
+    };
+    if (keyed.cache && this.cache) {
+      return this.cachedRequest(endpoint, keyed, keyed.cache, this.cache);
+    }
+    if (
+      this.inFlight &&
+      (keyed.method ?? "GET") === "GET" &&
+      !hasCallOverrides(keyed)
+    ) {
+      return this.coalescedRequest(endpoint, keyed, this.inFlight);
+    }
+    return this.execute(endpoint, keyed);
+  }
 
-        throw new ChaindocError("Unknown error occurred");
+  /**
+   * Send a request through the middleware chain
+   */
+  private async execute<T>(
+    endpoint: string,
+    options: KeyedRequestOptions<T>
+  ): Promise<T> {
+    const method = options.method ?? "GET";
+    // One key per logical call, so every retry attempt is deduplicated server-side
+    const idempotencyKey = IDEMPOTENT_METHODS.includes(method)
+      ? options.idempotencyKey ?? randomUUID()
+      : undefined;
+    const call: TelemetryCall = {
+      callId: randomUUID(),
+      method,
+      endpoint,
+      route: routeTemplate(endpoint),
+    };
+    const startedAt = performance.now();
+    this.callKeys.set(call.callId, options.secretKey);
+    this.emit({ type: "request.start", timestamp: Date.now(), ...call });
+
+    const request: MiddlewareRequest = {
+      callId: call.callId,
+      method,
+      endpoint,
+      url: `${this.baseUrl}${endpoint}`,
+      headers: {
+        ...this.defaultHeaders,
+        ...options.headers,
+        ...(idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: idempotencyKey } : {}),
+      },
+      body: options.body,
+      bodyType:
+        options.bodyType ??
+        (options.body instanceof FormData ? "multipart" : "json"),
+      timeout: options.timeout ?? this.timeout,
+      attempt: 0,
+      noRetry: options.noRetry || options.retry === false,
+      retry: options.retry || undefined,
+      priority: options.priority ?? "normal",
+      signal: options.signal,
+    };
+    this.log.debug(`${method} ${endpoint}`, {
+      callId: call.callId,
+      headers: redactHeaders(request.headers),
+      // Multipart and streamed bodies are not logged
+      ...(request.bodyType === "json" ? { body: request.body } : {}),
+    });
+
+    try {
+      const response = await this.handler(request);
+
+      if (options.schema) {
+        this.validateResponse(options.schema, response, method, endpoint);
       }
-    }
 
-    throw lastError ?? new ChaindocError("Request failed after retries");
+      const attempts = this.attempts.get(call.callId) ?? 0;
+      const durationMs = performance.now() - startedAt;
+      const requestId = response.headers.get(REQUEST_ID_HEADER) ?? undefined;
+      this.log.debug(`${method} ${endpoint} ${response.status}`, {
+        callId: call.callId,
+        attempts,
+        durationMs: Math.round(durationMs),
+        requestId,
+        body: response.data,
+      });
+      this.emit({
+        type: "response",
+        timestamp: Date.now(),
+        ...call,
+        statusCode: response.status,
+        attempts,
+        durationMs,
+        requestId,
+      });
+      if (options.invalidates && this.cache) {
+        await this.cache.invalidate(options.invalidates);
+      }
+      return response.data as T;
+    } catch (error) {
+      if (error instanceof ChaindocError) {
+        applyErrorContext(error, { method, endpoint, idempotencyKey });
+      }
+      const attempts = this.attempts.get(call.callId) ?? 0;
+      const durationMs = performance.now() - startedAt;
+      this.log.info(`${method} ${endpoint} failed`, {
+        callId: call.callId,
+        attempts,
+        durationMs: Math.round(durationMs),
+        ...describeError(error),
+      });
+      this.emit({
+        type: "error",
+        timestamp: Date.now(),
+        ...call,
+        error,
+        statusCode:
+          error instanceof ChaindocError ? error.statusCode : undefined,
+        attempts,
+        durationMs,
+        requestId: error instanceof ChaindocError ? error.requestId : undefined,
+      });
+      throw error;
+    } finally {
+      this.attempts.delete(call.callId);
+      this.callKeys.delete(call.callId);
+    }
   }
 
   async get<T>(
     endpoint: string,
-    options?: Omit<RequestOptions, "method" | "body">
+    options?: Omit<RequestOptions<T>, "method" | "body">
   ): Promise<T> {
     return this.request<T>(endpoint, { ...options, method: "GET" });
   }
@@ -230,7 +880,7 @@ export class HttpClient {
   async post<T>(
     endpoint: string,
     body?: unknown,
-    options?: Omit<RequestOptions, "method" | "body">
+    options?: Omit<RequestOptions<T>, "method" | "body">
   ): Promise<T> {
     return this.request<T>(endpoint, { ...options, method: "POST", body });
   }
@@ -238,14 +888,14 @@ export class HttpClient {
   async put<T>(
     endpoint: string,
     body?: unknown,
-    options?: Omit<RequestOptions, "method" | "body">
+    options?: Omit<RequestOptions<T>, "method" | "body">
   ): Promise<T> {
     return this.request<T>(endpoint, { ...options, method: "PUT", body });
   }
 
   async delete<T>(
     endpoint: string,
-    options?: Omit<RequestOptions, "method" | "body">
+    options?: Omit<RequestOptions<T>, "method" | "body">
   ): Promise<T> {
     return this.request<T>(endpoint, { ...options, method: "DELETE" });
   }
@@ -258,104 +908,46 @@ export class HttpClient {
   async uploadFiles<T>(
     endpoint: string,
     files: File[] | Blob[],
-    fieldName = "media"
+    fieldName = "media",
+    options?: Omit<RequestOptions<T>, "method" | "body" | "bodyType">
   ): Promise<T> {
-    const maxAttempts = this.retryConfig.maxRetries + 1;
-    let lastError: ChaindocError | undefined;
-
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      const formData = new FormData();
-      files.forEach((file) => {
-        formData.append(fieldName, file);
-      });
-
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout * 2);
-
-      try {
-        const response = await fetch(`${this.baseUrl}${endpoint}`, {
-          method: "POST",
-          headers: {
-            Authorization: `Bearer ${this.secretKey}`,
-          },
-          body: formData,
-          signal: controller.signal,
-        });
-
-        clearTimeout(timeoutId);
-
-        if (
-          response.status === 204 ||
-          response.headers.get("content-length") === "0"
-        ) {
-          return undefined as T;
-        }
-
-        const contentType = response.headers.get("content-type");
-        const data: unknown = contentType?.includes("application/json")
-          ? await response.json().catch(() => undefined)
-          : undefined;
-
-        if (!response.ok) {
-          const errorMessage =
-            data &&
-            typeof data === "object" &&
-            "message" in data &&
-            typeof data.message === "string"
-              ? data.message
-              : `Upload failed with status ${response.status}`;
-          const isRetryable = this.isRetryableError(null, response.status);
-          lastError = new ChaindocError(
-            errorMessage,
-            response.status,
-            data,
-            isRetryable
-          );
-
-          if (isRetryable && attempt < maxAttempts - 1) {
-            await this.sleep(this.getRetryDelay(attempt));
-            continue;
-          }
-
-          throw lastError;
-        }
-
-        return data as T;
-      } catch (error) {
-        clearTimeout(timeoutId);
-
-        if (error instanceof ChaindocError) {
-          if (!error.isRetryable || attempt >= maxAttempts - 1) {
-            throw error;
-          }
-          lastError = error;
-          await this.sleep(this.getRetryDelay(attempt));
-          continue;
-        }
-
-        const isRetryable = this.isRetryableError(error);
-        if (error instanceof Error) {
-          const message =
-            error.name === "AbortError" ? "Upload timeout" : error.message;
-          lastError = new ChaindocError(
-            message,
-            undefined,
-            undefined,
-            isRetryable
-          );
-
-          if (isRetryable && attempt < maxAttempts - 1) {
-            await this.sleep(this.getRetryDelay(attempt));
-            continue;
-          }
-
-          throw lastError;
-        }
-
-        throw new ChaindocError("Unknown error occurred");
-      }
-    }
+    const formData = new FormData();
+    files.forEach((file) => {
+      formData.append(fieldName, file);
+    });
+
+    return this.request<T>(endpoint, {
+      ...options,
+      timeout: options?.timeout ?? this.uploadTimeout,
+      method: "POST",
+      body: formData,
+      bodyType: "multipart",
+    });
+  }
 
-    throw lastError ?? new ChaindocError("Upload failed after retries");
+  /**
+   * Upload a streamed multipart body
+   * Bodies that contain streams cannot be replayed, so they are sent without retries
+   */
+  async uploadMultipart<T>(
+    endpoint: string,
+    multipart: MultipartBody,
+    options?: Omit<RequestOptions<T>, "method" | "body" | "bodyType">
+  ): Promise<T> {
+    return this.request<T>(endpoint, {
+      ...options,
+      timeout: options?.timeout ?? this.uploadTimeout,
+      method: "POST",
+      headers: {
+        ...withoutHeader(options?.headers ?? {}, "Content-Type"),
+        "Content-Type": multipart.contentType,
+        ...(multipart.contentLength !== undefined
+          ? { "Content-Length": String(multipart.contentLength) }
+          : {}),
+      },
+      body: () => multipart.open(),
+      bodyType: "raw",
+      noRetry: options?.noRetry || !multipart.replayable,
+    });
   }
 }
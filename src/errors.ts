@@ -0,0 +1,316 @@
+/**
+ * Error classes for the Chaindoc SDK
+ *
+ * Every error thrown by the SDK is a ChaindocError. HTTP failures are mapped
+ * to a subclass by status code so callers can use `instanceof` instead of
+ * switching on `statusCode`.
+ */
+
+import type {
+  FieldError,
+  HttpMethod,
+  ResponseValidationIssue,
+  UploadValidationReason,
+} from "./types";
+
+/**
+ * Request details attached to errors raised by HttpClient
+ */
+export interface ErrorContext {
+  requestId?: string;
+  method?: HttpMethod;
+  endpoint?: string;
+  attempts?: number;
+  idempotencyKey?: string;
+}
+
+export class ChaindocError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public response?: unknown,
+    public isRetryable: boolean = false,
+    /** Delay requested by the server via Retry-After or rate-limit headers */
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "ChaindocError";
+  }
+
+  /**
+   * Value of the `x-request-id` response header, for support requests
+   */
+  requestId?: string;
+
+  method?: HttpMethod;
+
+  endpoint?: string;
+
+  /**
+   * Number of attempts made, including retries
+   */
+  attempts?: number;
+
+  /**
+   * Idempotency key sent with the failed mutating request
+   * Use it to reconcile whether the operation was applied
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * 401 - missing, invalid or revoked API key
+ */
+export class AuthenticationError extends ChaindocError {
+  constructor(message: string, statusCode = 401, response?: unknown) {
+    super(message, statusCode, response, false);
+    this.name = "AuthenticationError";
+  }
+}
+
+/**
+ * 403 - API key is valid but lacks access to the resource
+ */
+export class PermissionError extends ChaindocError {
+  constructor(message: string, statusCode = 403, response?: unknown) {
+    super(message, statusCode, response, false);
+    this.name = "PermissionError";
+  }
+}
+
+/**
+ * 404 - resource does not exist
+ */
+export class NotFoundError extends ChaindocError {
+  constructor(message: string, statusCode = 404, response?: unknown) {
+    super(message, statusCode, response, false);
+    this.name = "NotFoundError";
+  }
+}
+
+/**
+ * 409 - request conflicts with the current resource state
+ */
+export class ConflictError extends ChaindocError {
+  constructor(message: string, statusCode = 409, response?: unknown) {
+    super(message, statusCode, response, false);
+    this.name = "ConflictError";
+  }
+}
+
+/**
+ * 400/422 - request parameters were rejected by the API
+ */
+export class ValidationError extends ChaindocError {
+  /**
+   * Per-field errors parsed from the response body
+   */
+  public fieldErrors: FieldError[];
+
+  constructor(message: string, statusCode = 400, response?: unknown) {
+    super(message, statusCode, response, false);
+    this.name = "ValidationError";
+    this.fieldErrors = parseFieldErrors(response);
+  }
+}
+
+/**
+ * Request parameters failed client-side checks; nothing was sent
+ * A ValidationError, so API and pre-flight rejections can be handled together
+ */
+export class RequestValidationError extends ValidationError {
+  constructor(message: string, fieldErrors: FieldError[]) {
+    super(message);
+    this.name = "RequestValidationError";
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * 429 - rate limit exceeded
+ */
+export class RateLimitError extends ChaindocError {
+  constructor(
+    message: string,
+    statusCode = 429,
+    response?: unknown,
+    retryAfterMs?: number
+  ) {
+    super(message, statusCode, response, true, retryAfterMs);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * Attempt did not complete within the configured timeout
+ */
+export class TimeoutError extends ChaindocError {
+  constructor(message = "Request timeout") {
+    super(message, undefined, undefined, true);
+    this.name = "TimeoutError";
+  }
+}
+
+/**
+ * Request never reached the API or the connection was dropped
+ */
+export class NetworkError extends ChaindocError {
+  constructor(message: string, isRetryable: boolean, public cause?: unknown) {
+    super(message, undefined, undefined, isRetryable);
+    this.name = "NetworkError";
+  }
+}
+
+/**
+ * 2xx response whose body reports `success: false`
+ */
+export class OperationFailedError extends ChaindocError {
+  constructor(message: string, statusCode?: number, response?: unknown) {
+    super(message, statusCode, response, false);
+    this.name = "OperationFailedError";
+  }
+}
+
+/**
+ * Response body does not match the SDK's types (`responseValidation: 'strict'`)
+ */
+export class ResponseValidationError extends ChaindocError {
+  constructor(
+    message: string,
+    public issues: ResponseValidationIssue[],
+    statusCode?: number,
+    response?: unknown
+  ) {
+    super(message, statusCode, response, false);
+    this.name = "ResponseValidationError";
+  }
+}
+
+/**
+ * File rejected before upload: unsupported type, empty, or over the size limit
+ */
+export class UploadValidationError extends ChaindocError {
+  constructor(
+    message: string,
+    public filename: string,
+    public reason: UploadValidationReason
+  ) {
+    super(message);
+    this.name = "UploadValidationError";
+  }
+}
+
+/**
+ * Cassette could not be read or written, or a replayed request has no matching interaction
+ */
+export class CassetteError extends ChaindocError {
+  constructor(message: string, public path: string) {
+    super(message);
+    this.name = "CassetteError";
+  }
+}
+
+/**
+ * Webhook signature, payload or timestamp check failed
+ */
+export class WebhookVerificationError extends ChaindocError {
+  constructor(message: string) {
+    super(message, 400);
+    this.name = "WebhookVerificationError";
+  }
+}
+
+/**
+ * Map an HTTP error response to the matching ChaindocError subclass
+ */
+export function createHttpError(
+  message: string,
+  statusCode: number,
+  response: unknown,
+  isRetryable: boolean,
+  retryAfterMs?: number
+): ChaindocError {
+  switch (statusCode) {
+    case 400:
+    case 422:
+      return new ValidationError(message, statusCode, response);
+    case 401:
+      return new AuthenticationError(message, statusCode, response);
+    case 403:
+      return new PermissionError(message, statusCode, response);
+    case 404:
+      return new NotFoundError(message, statusCode, response);
+    case 409:
+      return new ConflictError(message, statusCode, response);
+    case 429:
+      return new RateLimitError(message, statusCode, response, retryAfterMs);
+    default:
+      return new ChaindocError(
+        message,
+        statusCode,
+        response,
+        isRetryable,
+        retryAfterMs
+      );
+  }
+}
+
+/**
+ * Fill request details that are not already set on the error
+ */
+export function applyErrorContext(
+  error: ChaindocError,
+  context: ErrorContext
+): ChaindocError {
+  error.requestId ??= context.requestId;
+  error.method ??= context.method;
+  error.endpoint ??= context.endpoint;
+  error.attempts ??= context.attempts;
+  error.idempotencyKey ??= context.idempotencyKey;
+  return error;
+}
+
+/**
+ * Extract field errors from common validation response shapes:
+ * - `{ errors: [{ field, message }] }`
+ * - `{ errors: { field: ["message"] } }`
+ * - `{ message: ["field must be ..."] }` (class-validator)
+ */
+function parseFieldErrors(response: unknown): FieldError[] {
+  if (!response || typeof response !== "object") {
+    return [];
+  }
+  const body = response as Record<string, unknown>;
+
+  if (Array.isArray(body.errors)) {
+    return body.errors.flatMap((entry): FieldError[] => {
+      if (!entry || typeof entry !== "object") {
+        return [];
+      }
+      const { field, property, path, message } = entry as Record<
+        string,
+        unknown
+      >;
+      const name = field ?? property ?? path;
+      return typeof name === "string" && typeof message === "string"
+        ? [{ field: name, message }]
+        : [];
+    });
+  }
+
+  if (body.errors && typeof body.errors === "object") {
+    return Object.entries(body.errors).flatMap(([field, messages]) =>
+      (Array.isArray(messages) ? messages : [messages])
+        .filter((message): message is string => typeof message === "string")
+        .map((message) => ({ field, message }))
+    );
+  }
+
+  if (Array.isArray(body.message)) {
+    return body.message
+      .filter((message): message is string => typeof message === "string")
+      .map((message) => ({ field: message.split(" ")[0] ?? "", message }));
+  }
+
+  return [];
+}
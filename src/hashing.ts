@@ -0,0 +1,54 @@
+/**
+ * Local document hashing
+ * Produces the same value as `DocumentVersion.versionHash` / `Media.hash`
+ */
+
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { Readable } from "node:stream";
+import type { HashInput } from "./types";
+
+const VERSION_HASH_ALGORITHM = "sha256";
+
+/**
+ * Normalize any supported input into an async iterable of byte chunks
+ * Paths and streams are read incrementally, never buffered whole
+ */
+function toChunks(input: HashInput): AsyncIterable<Uint8Array> | Uint8Array[] {
+  if (typeof input === "string") {
+    return createReadStream(input);
+  }
+  if (input instanceof Uint8Array) {
+    return [input];
+  }
+  if (input instanceof ArrayBuffer) {
+    return [new Uint8Array(input)];
+  }
+  if (input instanceof Blob) {
+    return Readable.fromWeb(input.stream());
+  }
+  if (input instanceof ReadableStream) {
+    return Readable.fromWeb(input);
+  }
+  return input;
+}
+
+/**
+ * Compute the version hash of a file: hex-encoded SHA-256 of its raw bytes
+ *
+ * A string is treated as a file path. Large files and streams are hashed
+ * incrementally.
+ *
+ * @example
+ * ```typescript
+ * const versionHash = await computeVersionHash('./contract.pdf');
+ * const result = await chaindoc.documents.verify({ versionHash });
+ * ```
+ */
+export async function computeVersionHash(input: HashInput): Promise<string> {
+  const hash = createHash(VERSION_HASH_ALGORITHM);
+  for await (const chunk of toChunks(input)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
@@ -0,0 +1,68 @@
+/**
+ * Header helpers shared by the transport and middleware
+ */
+
+/**
+ * Read the rate-limit reset delay in milliseconds
+ * Accepts seconds until reset or an epoch timestamp in seconds
+ */
+export function parseRateLimitReset(headers: Headers): number | undefined {
+  const reset =
+    headers.get("x-ratelimit-reset") ?? headers.get("ratelimit-reset");
+  if (!reset) {
+    return undefined;
+  }
+
+  const value = Number(reset);
+  if (Number.isNaN(value)) {
+    return undefined;
+  }
+  // Large values are epoch seconds, small values are seconds until reset
+  return Math.max(0, value > 1e9 ? value * 1000 - Date.now() : value * 1000);
+}
+
+/**
+ * Read the server's requested retry delay from Retry-After or rate-limit reset headers
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  return parseRateLimitReset(headers);
+}
+
+/**
+ * True when the API reports no requests left in the current window
+ */
+export function isRateLimitExhausted(headers: Headers): boolean {
+  const remaining =
+    headers.get("x-ratelimit-remaining") ?? headers.get("ratelimit-remaining");
+  return remaining !== null && Number(remaining) <= 0;
+}
+
+export function hasHeader(
+  headers: Record<string, string>,
+  name: string
+): boolean {
+  const lower = name.toLowerCase();
+  return Object.keys(headers).some((key) => key.toLowerCase() === lower);
+}
+
+export function withoutHeader(
+  headers: Record<string, string>,
+  name: string
+): Record<string, string> {
+  const lower = name.toLowerCase();
+  return Object.fromEntries(
+    Object.entries(headers).filter(([key]) => key.toLowerCase() !== lower)
+  );
+}
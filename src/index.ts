@@ -7,5 +7,39 @@
  */
 
 export { Chaindoc } from "./chaindoc";
-export { ChaindocError } from "./client";
+export {
+  ChaindocError,
+  AuthenticationError,
+  PermissionError,
+  NotFoundError,
+  ConflictError,
+  ValidationError,
+  RequestValidationError,
+  RateLimitError,
+  TimeoutError,
+  NetworkError,
+  OperationFailedError,
+  ResponseValidationError,
+  UploadValidationError,
+  CassetteError,
+  WebhookVerificationError,
+} from "./errors";
+export { PageIterator } from "./pagination";
+export { MemoryCacheStore } from "./cache";
+export { computeVersionHash } from "./hashing";
+export { SUPPORTED_MEDIA_TYPES, detectMediaType } from "./media-types";
+export { routeTemplate } from "./telemetry";
+export { createOpenTelemetryListener } from "./opentelemetry";
+export type {
+  OpenTelemetryListenerOptions,
+  OpenTelemetryMeter,
+  OpenTelemetrySpan,
+  OpenTelemetryTracer,
+} from "./opentelemetry";
+export { Webhooks, WEBHOOK_SIGNATURE_HEADER } from "./modules/webhooks";
+export {
+  Workflows,
+  SigningWorkflow,
+  MemoryWorkflowStorage,
+} from "./modules/workflows";
 export * from "./types";
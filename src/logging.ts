@@ -0,0 +1,88 @@
+/**
+ * Leveled logging with redaction
+ */
+
+import { ChaindocError } from "./errors";
+import { REDACTED_KEYS, redact, redactSecrets } from "./redaction";
+import type { LogLevel, Logger } from "./types";
+
+const DEFAULT_LOG_LEVEL: LogLevel = "warn";
+const LOG_PREFIX = "[chaindoc]";
+
+const SEVERITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  silent: 3,
+};
+
+const redactedKeys = new Set(REDACTED_KEYS);
+
+function maskSecrets(value: unknown): unknown {
+  if (typeof value === "string") {
+    return redactSecrets(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(maskSecrets);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, maskSecrets(entry)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Redact data for logging: KYC keys at any depth, and secret keys inside strings
+ */
+function redactForLog(data: Record<string, unknown>): Record<string, unknown> {
+  return maskSecrets(redact(data, redactedKeys)) as Record<string, unknown>;
+}
+
+/**
+ * Wrap a logger with level filtering and redaction
+ * A throwing logger never affects the request
+ */
+export function createLogger(
+  logger: Logger = console,
+  level: LogLevel = DEFAULT_LOG_LEVEL
+): Logger {
+  const write =
+    (entryLevel: Exclude<LogLevel, "silent">) =>
+    (message: string, data?: Record<string, unknown>) => {
+      if (SEVERITY[entryLevel] < SEVERITY[level]) {
+        return;
+      }
+      try {
+        const text = `${LOG_PREFIX} ${redactSecrets(message)}`;
+        if (data) {
+          logger[entryLevel](text, redactForLog(data));
+        } else {
+          logger[entryLevel](text);
+        }
+      } catch {
+        // Logging must not break API calls
+      }
+    };
+
+  return { debug: write("debug"), info: write("info"), warn: write("warn") };
+}
+
+/**
+ * Loggable summary of an error
+ */
+export function describeError(error: unknown): Record<string, unknown> {
+  if (error instanceof ChaindocError) {
+    return {
+      error: error.name,
+      message: error.message,
+      statusCode: error.statusCode,
+      requestId: error.requestId,
+      response: error.response,
+    };
+  }
+  return error instanceof Error
+    ? { error: error.name, message: error.message }
+    : { error: String(error) };
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest";
+import { detectMediaType } from "./media-types";
+
+function bytes(...parts: Array<string | number[]>): Uint8Array {
+  const encoder = new TextEncoder();
+  return new Uint8Array(
+    parts.flatMap((part) =>
+      typeof part === "string" ? [...encoder.encode(part)] : part
+    )
+  );
+}
+
+function ftyp(brand: string): Uint8Array {
+  return bytes([0, 0, 0, 0x18], "ftyp", brand, [0, 0, 0, 0]);
+}
+
+const OLE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+const ZIP = [0x50, 0x4b, 0x03, 0x04];
+
+describe("detectMediaType", () => {
+  it.each([
+    ["a.pdf", bytes("%PDF-1.7"), "application/pdf"],
+    ["a.jpg", bytes([0xff, 0xd8, 0xff, 0xe0]), "image/jpeg"],
+    [
+      "a.png",
+      bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      "image/png",
+    ],
+    ["a.gif", bytes("GIF89a"), "image/gif"],
+    ["a.webp", bytes("RIFF", [0, 0, 0, 0], "WEBP"), "image/webp"],
+    ["a.avi", bytes("RIFF", [0, 0, 0, 0], "AVI "), "video/x-msvideo"],
+    ["a.mp4", ftyp("isom"), "video/mp4"],
+    ["a.m4v", ftyp("M4V "), "video/mp4"],
+    ["a.mov", ftyp("qt  "), "video/quicktime"],
+    [
+      "a.wmv",
+      bytes([0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11]),
+      "video/x-ms-wmv",
+    ],
+    [
+      "a.svg",
+      bytes('<svg xmlns="http://www.w3.org/2000/svg"/>'),
+      "image/svg+xml",
+    ],
+    ["a.txt", bytes("Hello, world\n"), "text/plain"],
+  ])("detects %s", (filename, head, expected) => {
+    expect(detectMediaType(head, filename)).toBe(expected);
+  });
+
+  it("detects content regardless of the extension", () => {
+    expect(detectMediaType(bytes("%PDF-1.7"), "scan.jpg")).toBe(
+      "application/pdf"
+    );
+    expect(detectMediaType(bytes("%PDF-1.7"), "scan")).toBe("application/pdf");
+  });
+
+  it("uses the extension to tell apart Office formats", () => {
+    expect(detectMediaType(bytes(OLE), "a.doc")).toBe("application/msword");
+    expect(detectMediaType(bytes(OLE), "a.xls")).toBe(
+      "application/vnd.ms-excel"
+    );
+    expect(detectMediaType(bytes(OLE), "a.bin")).toBeUndefined();
+    expect(detectMediaType(bytes(ZIP), "a.pptx")).toBe(
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation"
+    );
+  });
+
+  it("finds the OOXML type from part names without an extension", () => {
+    expect(detectMediaType(bytes(ZIP, "....word/document.xml"), "a")).toBe(
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+    );
+    expect(
+      detectMediaType(bytes(ZIP, "....other.txt"), "a.zip")
+    ).toBeUndefined();
+  });
+
+  it.each([
+    ["HEIC", "heic"],
+    ["AVIF", "avif"],
+    ["3GP", "3gp4"],
+    ["M4A", "M4A "],
+  ])("rejects %s in an ISO media container", (_, brand) => {
+    expect(detectMediaType(ftyp(brand), "a.mp4")).toBeUndefined();
+  });
+
+  it.each([
+    ["a.csv", "a,b\n1,2\n"],
+    ["a.html", "<!doctype html><p>hi</p>"],
+    ["a", "Hello"],
+  ])("rejects text content named %s", (filename, text) => {
+    expect(detectMediaType(bytes(text), filename)).toBeUndefined();
+  });
+
+  it("rejects binary and invalid UTF-8 content named .txt", () => {
+    expect(
+      detectMediaType(bytes("abc", [0x00, 0x01]), "a.txt")
+    ).toBeUndefined();
+    expect(detectMediaType(bytes([0xc3, 0x28]), "a.txt")).toBeUndefined();
+  });
+
+  it("accepts text with a multi-byte character cut off at the end", () => {
+    expect(detectMediaType(bytes("caf", [0xc3]), "a.txt")).toBe("text/plain");
+  });
+
+  it("rejects empty content", () => {
+    expect(detectMediaType(new Uint8Array(), "a.txt")).toBeUndefined();
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Supported upload types, detected from file contents (magic bytes)
+ *
+ * The extension is only consulted to tell apart formats that share a
+ * container: DOC/XLS/PPT (OLE compound file) and DOCX/XLSX/PPTX (ZIP), and
+ * plain text from other text formats such as HTML or CSV.
+ */
+
+/**
+ * Number of leading bytes needed to detect any supported type
+ */
+export const SNIFF_LENGTH = 4096;
+
+const OLE_TYPES: Record<string, string> = {
+  doc: "application/msword",
+  xls: "application/vnd.ms-excel",
+  ppt: "application/vnd.ms-powerpoint",
+};
+
+const OOXML_TYPES: Record<string, string> = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+};
+
+/**
+ * ISO base media major brands of the supported video types
+ * Other files in the same container, e.g. HEIC, AVIF, 3GP or M4A, are rejected
+ */
+const FTYP_BRANDS: Record<string, string> = {
+  isom: "video/mp4",
+  iso2: "video/mp4",
+  mp41: "video/mp4",
+  mp42: "video/mp4",
+  avc1: "video/mp4",
+  "M4V ": "video/mp4",
+  "qt  ": "video/quicktime",
+};
+
+/**
+ * Extensions of plain text files; text content with any other extension is rejected
+ */
+const TEXT_EXTENSIONS = ["txt", "text"];
+
+/**
+ * OOXML part directories, used when the extension is missing
+ */
+const OOXML_MARKERS: Array<[string, string]> = [
+  ["word/", "docx"],
+  ["xl/", "xlsx"],
+  ["ppt/", "pptx"],
+];
+
+/**
+ * MIME types accepted by the media upload endpoint
+ */
+export const SUPPORTED_MEDIA_TYPES: readonly string[] = [
+  "application/pdf",
+  ...Object.values(OLE_TYPES),
+  ...Object.values(OOXML_TYPES),
+  "text/plain",
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "image/svg+xml",
+  "video/mp4",
+  "video/x-msvideo",
+  "video/quicktime",
+  "video/x-ms-wmv",
+];
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0) {
+  return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function ascii(bytes: Uint8Array, start: number, end: number): string {
+  return String.fromCharCode(...bytes.subarray(start, end));
+}
+
+function getExtension(filename: string): string {
+  const dot = filename.lastIndexOf(".");
+  return dot === -1 ? "" : filename.slice(dot + 1).toLowerCase();
+}
+
+function isControlByte(byte: number): boolean {
+  // Tab, LF and CR are the only control characters expected in text
+  return (
+    (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d) ||
+    byte === 0x7f
+  );
+}
+
+function detectText(bytes: Uint8Array, extension: string): string | undefined {
+  if (bytes.length === 0 || bytes.some(isControlByte)) {
+    return undefined;
+  }
+  let text: string;
+  try {
+    // Streaming mode leaves a character cut off at the end of the window undecoded
+    text = new TextDecoder("utf-8", { fatal: true }).decode(bytes, {
+      stream: true,
+    });
+  } catch {
+    return undefined;
+  }
+  text = text.replace(/^\uFEFF/, "").trimStart();
+  if (
+    text.startsWith("<svg") ||
+    (text.startsWith("<?xml") && text.includes("<svg"))
+  ) {
+    return "image/svg+xml";
+  }
+  return TEXT_EXTENSIONS.includes(extension) ? "text/plain" : undefined;
+}
+
+/**
+ * Detect a supported MIME type from the leading bytes of a file
+ * Returns undefined when the content is not a supported type
+ */
+export function detectMediaType(
+  head: Uint8Array,
+  filename: string
+): string | undefined {
+  const extension = getExtension(filename);
+
+  if (startsWith(head, [0x25, 0x50, 0x44, 0x46])) {
+    return "application/pdf";
+  }
+  if (startsWith(head, [0xff, 0xd8, 0xff])) {
+    return "image/jpeg";
+  }
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (startsWith(head, [0x47, 0x49, 0x46, 0x38])) {
+    return "image/gif";
+  }
+  if (startsWith(head, [0x52, 0x49, 0x46, 0x46])) {
+    const format = ascii(head, 8, 12);
+    if (format === "WEBP") {
+      return "image/webp";
+    }
+    if (format === "AVI ") {
+      return "video/x-msvideo";
+    }
+    return undefined;
+  }
+  if (ascii(head, 4, 8) === "ftyp") {
+    return FTYP_BRANDS[ascii(head, 8, 12)];
+  }
+  if (startsWith(head, [0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11])) {
+    return "video/x-ms-wmv";
+  }
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return OLE_TYPES[extension];
+  }
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) {
+    if (OOXML_TYPES[extension]) {
+      return OOXML_TYPES[extension];
+    }
+    const names = ascii(head, 0, head.length);
+    const marker = OOXML_MARKERS.find(([dir]) => names.includes(dir));
+    return marker ? OOXML_TYPES[marker[1]] : undefined;
+  }
+
+  return detectText(head, extension);
+}
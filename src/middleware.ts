@@ -0,0 +1,138 @@
+/**
+ * Middleware chain for HttpClient
+ * Retry, timeout and auth are implemented as built-in middleware
+ */
+
+import { ChaindocError } from "./errors";
+import { sleep } from "./polling";
+import type {
+  Middleware,
+  MiddlewareNext,
+  MiddlewareRequest,
+  RetryConfig,
+} from "./types";
+
+/**
+ * Wrap a handler with middleware, first middleware outermost
+ */
+export function composeMiddleware(
+  middleware: Middleware[],
+  handler: MiddlewareNext
+): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>(
+    (next, current) => (request) => current(request, next),
+    handler
+  );
+}
+
+/**
+ * Calculate delay with exponential backoff and jitter
+ */
+function getRetryDelay(
+  retryConfig: Required<RetryConfig>,
+  attempt: number
+): number {
+  const exponentialDelay = retryConfig.baseDelayMs * Math.pow(2, attempt);
+  const cappedDelay = Math.min(exponentialDelay, retryConfig.maxDelayMs);
+  // Add jitter (±25%)
+  const jitter = cappedDelay * 0.25 * (Math.random() * 2 - 1);
+  return Math.round(cappedDelay + jitter);
+}
+
+/**
+ * Retry retryable ChaindocErrors
+ * Waits for the server-requested delay when one was sent (429/503),
+ * otherwise uses exponential backoff
+ *
+ * `onRetry` is called with the failed attempt before each delay
+ */
+export function createRetryMiddleware(
+  retryConfig: Required<RetryConfig>,
+  onRetry?: (
+    request: MiddlewareRequest,
+    error: ChaindocError,
+    delayMs: number
+  ) => void
+): Middleware {
+  return async (request, next) => {
+    const config = { ...retryConfig };
+    for (const [key, value] of Object.entries(request.retry ?? {})) {
+      if (value !== undefined) {
+        config[key as keyof RetryConfig] = value;
+      }
+    }
+    const maxAttempts = request.noRetry ? 1 : config.maxRetries + 1;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await next({ ...request, attempt });
+      } catch (error) {
+        if (
+          !(error instanceof ChaindocError) ||
+          !error.isRetryable ||
+          attempt >= maxAttempts - 1
+        ) {
+          throw error;
+        }
+        if (
+          error.retryAfterMs !== undefined &&
+          error.retryAfterMs > config.maxRetryAfterMs
+        ) {
+          throw error;
+        }
+        const delayMs = error.retryAfterMs ?? getRetryDelay(config, attempt);
+        onRetry?.({ ...request, attempt }, error, delayMs);
+        await sleep(delayMs, request.signal);
+      }
+    }
+  };
+}
+
+/**
+ * Abort the attempt after `request.timeout` milliseconds
+ * The caller's signal is chained in; a caller abort rejects with its reason, not TimeoutError
+ */
+export function createTimeoutMiddleware(): Middleware {
+  return async (request, next) => {
+    const callerSignal = request.signal;
+    callerSignal?.throwIfAborted();
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), request.timeout);
+    const onAbort = () => controller.abort(callerSignal?.reason);
+    callerSignal?.addEventListener("abort", onAbort, { once: true });
+
+    try {
+      return await next({ ...request, signal: controller.signal });
+    } catch (error) {
+      if (callerSignal?.aborted) {
+        throw callerSignal.reason;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+      callerSignal?.removeEventListener("abort", onAbort);
+    }
+  };
+}
+
+/**
+ * Attach the secret key as a bearer token
+ * `keyOf` returns the key resolved once for the request's call, reused by every attempt
+ */
+export function createAuthMiddleware(
+  keyOf: (request: MiddlewareRequest) => string | undefined
+): Middleware {
+  return async (request, next) => {
+    const secretKey = keyOf(request);
+    if (!secretKey) {
+      throw new ChaindocError(
+        `No secretKey was resolved for call ${request.callId}`
+      );
+    }
+    return next({
+      ...request,
+      headers: { ...request.headers, Authorization: `Bearer ${secretKey}` },
+    });
+  };
+}
@@ -3,13 +3,28 @@
  */
 
 import type { HttpClient } from '../client';
+import { callOptionsOf } from '../client';
+import { NotFoundError, OperationFailedError } from '../errors';
+import { computeVersionHash } from '../hashing';
+import { poll } from '../polling';
+import { validateCreateDocumentParams, validateUpdateDocumentRightsParams } from '../request-validation';
+import { documentResponse, verifyDocumentResponse } from '../response-schemas';
 import type {
+  CallOptions,
   CreateDocumentParams,
   UpdateDocumentParams,
   UpdateDocumentRightsParams,
   DocumentResponse,
+  HashInput,
+  IdempotentCallOptions,
   VerifyDocumentParams,
   VerifyDocumentResponse,
+  VerificationOutcome,
+  VerificationProgress,
+  VerificationTxStatus,
+  VerifyFileOptions,
+  VerifyFileResult,
+  WaitForVerificationOptions,
 } from '../types';
 
 export class Documents {
@@ -19,36 +34,155 @@ export class Documents {
    * Create a new document
    * Creates document with first version. Set status to "published" to verify in blockchain immediately.
    */
-  async create(params: CreateDocumentParams): Promise<DocumentResponse> {
-    return this.client.post<DocumentResponse>('/api/v1/documents', params);
+  async create(params: CreateDocumentParams, options?: IdempotentCallOptions): Promise<DocumentResponse> {
+    validateCreateDocumentParams(params);
+    return this.client.post<DocumentResponse>('/api/v1/documents', params, { ...options, schema: documentResponse });
   }
 
   /**
    * Update document (creates new version)
    * Set status to "published" to verify in blockchain.
    */
-  async update(documentId: string, params: UpdateDocumentParams): Promise<DocumentResponse> {
-    return this.client.put<DocumentResponse>(`/api/v1/documents/${documentId}`, params);
+  async update(
+    documentId: string,
+    params: UpdateDocumentParams,
+    options?: IdempotentCallOptions
+  ): Promise<DocumentResponse> {
+    return this.client.put<DocumentResponse>(`/api/v1/documents/${documentId}`, params, {
+      ...options,
+      schema: documentResponse,
+      invalidates: [`document:${documentId}`],
+    });
   }
 
   /**
    * Update document access rights
    */
-  async updateRights(documentId: string, params: UpdateDocumentRightsParams): Promise<DocumentResponse> {
-    return this.client.put<DocumentResponse>(`/api/v1/documents/${documentId}/rights`, params);
+  async updateRights(
+    documentId: string,
+    params: UpdateDocumentRightsParams,
+    options?: IdempotentCallOptions
+  ): Promise<DocumentResponse> {
+    validateUpdateDocumentRightsParams(params);
+    return this.client.put<DocumentResponse>(`/api/v1/documents/${documentId}/rights`, params, {
+      ...options,
+      schema: documentResponse,
+      invalidates: [`document:${documentId}`],
+    });
   }
 
   /**
    * Verify document in blockchain
    */
-  async verify(params: VerifyDocumentParams): Promise<VerifyDocumentResponse> {
-    return this.client.post<VerifyDocumentResponse>('/api/v1/documents/verify', params);
+  async verify(params: VerifyDocumentParams, options?: CallOptions): Promise<VerifyDocumentResponse> {
+    return this.client.post<VerifyDocumentResponse>('/api/v1/documents/verify', params, {
+      ...options,
+      schema: verifyDocumentResponse,
+    });
+  }
+
+  /**
+   * Hash a file locally and verify it in blockchain
+   *
+   * Accepts a file path, buffer, Blob or stream; large files are hashed incrementally.
+   *
+   * @example
+   * ```typescript
+   * const result = await chaindoc.documents.verifyFile('./received-contract.pdf');
+   *
+   * switch (result.outcome) {
+   *   case 'verified': // matches an anchored version
+   *   case 'not_anchored': // matches a version whose transaction is still pending
+   *   case 'not_found': // matches no document - the file was altered or never uploaded
+   * }
+   * ```
+   */
+  async verifyFile(input: HashInput, options: VerifyFileOptions = {}): Promise<VerifyFileResult> {
+    return this.verifyHash(await computeVersionHash(input), options);
+  }
+
+  /**
+   * Verify a precomputed version hash in blockchain
+   * Same outcomes as `verifyFile`, for callers that already hold the hash
+   */
+  async verifyHash(versionHash: string, options: VerifyFileOptions = {}): Promise<VerifyFileResult> {
+    const { certificateHash, ...callOptions } = options;
+    let response: VerifyDocumentResponse;
+    try {
+      response = await this.verify({ versionHash, certificateHash }, callOptions);
+    } catch (error) {
+      // The API reports an unknown hash either as 404 or as `success: false` without a document
+      if (
+        error instanceof NotFoundError ||
+        (error instanceof OperationFailedError && !(error.response as VerifyDocumentResponse | undefined)?.document)
+      ) {
+        return { outcome: 'not_found', versionHash };
+      }
+      throw error;
+    }
+
+    if (!response.document) {
+      return { outcome: 'not_found', versionHash };
+    }
+    if (response.verified) {
+      return { outcome: 'verified', versionHash, verification: response.verification, response };
+    }
+    return { outcome: 'not_anchored', versionHash, response };
   }
 
   /**
    * Get verification status for a document version
+   * Served from the response cache once the version is verified
+   */
+  async getVerificationStatus(versionId: string, options?: CallOptions): Promise<VerifyDocumentResponse> {
+    return this.client.get<VerifyDocumentResponse>(`/api/v1/documents/versions/${versionId}/verification`, {
+      ...options,
+      schema: verifyDocumentResponse,
+      cache: {
+        read: 'verificationStatus',
+        key: versionId,
+        when: (response) => response.verified,
+        tags: (response) => (response.document ? [`document:${response.document.id}`] : []),
+      },
+    });
+  }
+
+  /**
+   * Poll verification status until the blockchain transaction is verified or failed
+   *
+   * @example
+   * ```typescript
+   * const doc = await chaindoc.documents.create({ ...params, status: 'published' });
+   * const result = await chaindoc.documents.waitForVerification(doc.document.versions[0].uuid, {
+   *   onProgress: ({ txStatus }) => console.log('txStatus:', txStatus),
+   * });
+   *
+   * if (result.outcome === 'verified') {
+   *   console.log('Anchored in', result.verification?.txHash);
+   * }
+   * ```
    */
-  async getVerificationStatus(versionId: string): Promise<VerifyDocumentResponse> {
-    return this.client.get<VerifyDocumentResponse>(`/api/v1/documents/versions/${versionId}/verification`);
+  async waitForVerification(versionId: string, options?: WaitForVerificationOptions): Promise<VerificationOutcome> {
+    return poll(
+      `verification of version ${versionId}`,
+      async (): Promise<VerificationProgress> => {
+        const response = await this.getVerificationStatus(versionId, callOptionsOf(options));
+        return {
+          txStatus: response.verification?.status as VerificationTxStatus | undefined,
+          verified: response.verified,
+          response,
+        };
+      },
+      ({ txStatus, verified, response }): VerificationOutcome | undefined => {
+        if (verified || txStatus === 'verified') {
+          return { outcome: 'verified', verification: response.verification, response };
+        }
+        if (txStatus === 'failed') {
+          return { outcome: 'failed', response };
+        }
+        return undefined;
+      },
+      options
+    );
   }
 }
@@ -3,9 +3,12 @@
  */
 
 import type { HttpClient } from '../client';
+import { validateCreateEmbeddedSessionParams } from '../request-validation';
+import { embeddedSessionResponse } from '../response-schemas';
 import type {
   CreateEmbeddedSessionParams,
   EmbeddedSessionResponse,
+  IdempotentCallOptions,
 } from '../types';
 
 export class Embedded {
@@ -32,8 +35,19 @@ export class Embedded {
    * // Pass session.sessionId to frontend
    * // Frontend uses: sdk.openSignatureFlow({ sessionId: session.sessionId })
    * ```
+   *
+   * Runs at high priority unless `options.priority` says otherwise: when `rateLimit` is configured,
+   * it is dispatched ahead of queued batch calls.
    */
-  async createSession(params: CreateEmbeddedSessionParams): Promise<EmbeddedSessionResponse> {
-    return this.client.post<EmbeddedSessionResponse>('/api/v1/embedded/sessions', params);
+  async createSession(
+    params: CreateEmbeddedSessionParams,
+    options?: IdempotentCallOptions
+  ): Promise<EmbeddedSessionResponse> {
+    validateCreateEmbeddedSessionParams(params);
+    return this.client.post<EmbeddedSessionResponse>('/api/v1/embedded/sessions', params, {
+      ...options,
+      priority: options?.priority ?? 'high',
+      schema: embeddedSessionResponse,
+    });
   }
 }
@@ -3,3 +3,6 @@ export { Signatures } from './signatures';
 export { Embedded } from './embedded';
 export { Media } from './media';
 export { Kyc } from './kyc';
+export { Reminders } from './reminders';
+export { Webhooks } from './webhooks';
+export { Workflows, SigningWorkflow, MemoryWorkflowStorage } from './workflows';
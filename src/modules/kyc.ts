@@ -3,7 +3,9 @@
  */
 
 import type { HttpClient } from '../client';
-import type { ShareKycParams, ShareKycResponse } from '../types';
+import { validateShareKycParams } from '../request-validation';
+import { shareKycResponse } from '../response-schemas';
+import type { IdempotentCallOptions, ShareKycParams, ShareKycResponse } from '../types';
 
 export class Kyc {
   constructor(private client: HttpClient) {}
@@ -12,6 +14,7 @@ export class Kyc {
    * Share KYC data for a user
    *
    * Used to pre-verify users via Sumsub share token before creating signature requests.
+   * A `success: false` response is thrown as `OperationFailedError` with the API's `error` message.
    *
    * @example
    * ```typescript
@@ -21,12 +24,13 @@ export class Kyc {
    *   shareToken: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
    * });
    *
-   * if (result.success && result.kycData?.verified) {
+   * if (result.kycData?.verified) {
    *   // User is KYC verified, can proceed with signing
    * }
    * ```
    */
-  async share(params: ShareKycParams): Promise<ShareKycResponse> {
-    return this.client.post<ShareKycResponse>('/api/v1/kyc/share', params);
+  async share(params: ShareKycParams, options?: IdempotentCallOptions): Promise<ShareKycResponse> {
+    validateShareKycParams(params);
+    return this.client.post<ShareKycResponse>('/api/v1/kyc/share', params, { ...options, schema: shareKycResponse });
   }
 }
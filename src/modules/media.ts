@@ -3,7 +3,13 @@
  */
 
 import type { HttpClient } from '../client';
-import type { MediaUploadResponse } from '../types';
+import { mediaUploadResponse } from '../response-schemas';
+import type { MediaUploadResponse, UploadInput, UploadOptions } from '../types';
+import type { PreparedFile } from '../uploads';
+import { createMultipartBody, prepareFiles } from '../uploads';
+
+const UPLOAD_ENDPOINT = '/api/v1/media/upload';
+const UPLOAD_FIELD_NAME = 'media';
 
 export class Media {
   constructor(private client: HttpClient) {}
@@ -16,16 +22,22 @@ export class Media {
    * - Images: JPG, JPEG, PNG, GIF, WEBP, SVG
    * - Videos: MP4, AVI, MOV, WMV
    *
+   * Types are detected from file contents; unsupported or empty files are
+   * rejected with UploadValidationError before anything is sent. Files are
+   * streamed, never buffered whole. Uploads containing a Node or web stream
+   * are not retried, since a stream can only be read once.
+   *
    * Use returned media object when creating documents.
    *
    * @example
    * ```typescript
-   * import { readFile } from 'fs/promises';
+   * import { createReadStream } from 'fs';
    *
-   * const buffer = await readFile('./contract.pdf');
-   * const file = new Blob([buffer], { type: 'application/pdf' });
-   *
-   * const { media } = await chaindoc.media.upload([file]);
+   * const { media } = await chaindoc.media.upload([
+   *   { data: createReadStream('./contract.pdf'), filename: 'contract.pdf' },
+   * ], {
+   *   onProgress: ({ filename, loaded, total }) => console.log(filename, loaded, total),
+   * });
    *
    * // Use media[0] when creating document
    * await chaindoc.documents.create({
@@ -35,7 +47,32 @@ export class Media {
    * });
    * ```
    */
-  async upload(files: File[] | Blob[]): Promise<MediaUploadResponse> {
-    return this.client.uploadFiles<MediaUploadResponse>('/api/v1/media/upload', files);
+  async upload(files: UploadInput[], options: UploadOptions = {}): Promise<MediaUploadResponse> {
+    return this.uploadPrepared(await prepareFiles(files, options), options);
+  }
+
+  /**
+   * Upload files from disk, streaming them without loading into memory
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * const { media } = await chaindoc.media.uploadFromPath('./contract.pdf', {
+   *   signal: controller.signal,
+   *   maxFileSize: 50 * 1024 * 1024,
+   * });
+   * ```
+   */
+  async uploadFromPath(paths: string | string[], options: UploadOptions = {}): Promise<MediaUploadResponse> {
+    return this.uploadPrepared(await prepareFiles(Array.isArray(paths) ? paths : [paths], options), options);
+  }
+
+  private uploadPrepared(files: PreparedFile[], options: UploadOptions): Promise<MediaUploadResponse> {
+    const { signal, timeout, headers, retry, priority, idempotencyKey } = options;
+    return this.client.uploadMultipart<MediaUploadResponse>(
+      UPLOAD_ENDPOINT,
+      createMultipartBody(files, UPLOAD_FIELD_NAME, options),
+      { signal, timeout, headers, retry, priority, idempotencyKey, schema: mediaUploadResponse }
+    );
   }
 }
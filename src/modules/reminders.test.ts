@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { Chaindoc } from '../chaindoc';
+import { ChaindocError } from '../errors';
+import { FakeChaindocServer } from '../testing';
+import type { RunRemindersOptions, SignerReminder } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function setup(deadline = new Date(Date.now() + 30 * DAY_MS)) {
+  const fake = new FakeChaindocServer();
+  const chaindoc = new Chaindoc({ secretKey: 'sk_test_fake', fetch: fake.fetch });
+  const { media } = await chaindoc.media.upload([{ data: new TextEncoder().encode('%PDF-1.4\n'), filename: 'a.pdf' }]);
+  const { document } = await chaindoc.documents.create({
+    name: 'Contract',
+    description: '',
+    media: media[0]!,
+    meta: [],
+    hashtags: [],
+    status: 'published',
+  });
+  const { signatureRequest } = await chaindoc.signatures.createRequest({
+    versionId: document.versions[0]!.uuid,
+    recipients: [{ email: 'signed@example.com' }, { email: 'pending@example.com' }],
+    deadline,
+  });
+  fake.signAs(signatureRequest.id, 'signed@example.com');
+  return { fake, chaindoc };
+}
+
+describe('reminders.run', () => {
+  it('reminds signers who have not signed', async () => {
+    const { chaindoc } = await setup();
+    const sent: SignerReminder[] = [];
+
+    const report = await chaindoc.reminders.run({
+      channel: { send: (reminder) => void sent.push(reminder) },
+      lastRemindedAt: () => undefined,
+      cooldownMs: 0,
+    });
+
+    expect(sent.map(({ signer, level }) => [signer.signerEmail, level])).toEqual([['pending@example.com', 'normal']]);
+    expect(report).toMatchObject({ scannedRequests: 1, reminded: 1, skipped: 0, failed: 0 });
+  });
+
+  it('skips signers reminded by the channel within the cooldown', async () => {
+    const { chaindoc } = await setup();
+    const remindedAt = new Date();
+    let sends = 0;
+
+    const report = await chaindoc.reminders.run({
+      channel: { send: () => void sends++ },
+      lastRemindedAt: () => remindedAt,
+    });
+
+    expect(sends).toBe(0);
+    expect(report.entries).toEqual([
+      expect.objectContaining({
+        outcome: 'cooldown',
+        nextReminderAt: new Date(remindedAt.getTime() + DAY_MS).toISOString(),
+      }),
+    ]);
+  });
+
+  it('uses the level of the escalation rule matching the deadline', async () => {
+    const { chaindoc } = await setup(new Date(Date.now() + 12 * 60 * 60 * 1000));
+    const levels: string[] = [];
+
+    await chaindoc.reminders.run({
+      channel: { send: ({ level }) => void levels.push(level) },
+      lastRemindedAt: () => undefined,
+      escalation: [
+        { beforeDueMs: 3 * DAY_MS, cooldownMs: 0, level: 'soon' },
+        { beforeDueMs: DAY_MS, cooldownMs: 0, level: 'final' },
+      ],
+    });
+
+    expect(levels).toEqual(['final']);
+  });
+
+  it('reports a failed send and keeps going', async () => {
+    const { chaindoc } = await setup();
+    const error = new Error('smtp down');
+
+    const report = await chaindoc.reminders.run({
+      channel: {
+        send: () => {
+          throw error;
+        },
+      },
+      lastRemindedAt: () => undefined,
+      cooldownMs: 0,
+    });
+
+    expect(report.failed).toBe(1);
+    expect(report.entries[0]).toMatchObject({ outcome: 'failed', error });
+  });
+
+  it('does not send on a dry run', async () => {
+    const { chaindoc } = await setup();
+    let sends = 0;
+
+    const report = await chaindoc.reminders.run({
+      channel: { send: () => void sends++ },
+      lastRemindedAt: () => undefined,
+      cooldownMs: 0,
+      dryRun: true,
+    });
+
+    expect(sends).toBe(0);
+    expect(report.entries.map(({ outcome }) => outcome)).toEqual(['dry_run']);
+  });
+
+  it('requires lastRemindedAt', async () => {
+    const { chaindoc } = await setup();
+    const options = { channel: { send: () => undefined } } as unknown as RunRemindersOptions;
+
+    await expect(chaindoc.reminders.run(options)).rejects.toBeInstanceOf(ChaindocError);
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Reminders Module
+ */
+
+import { callOptionsOf } from '../client';
+import { ChaindocError } from '../errors';
+import type {
+  ReminderEscalation,
+  ReminderReport,
+  ReminderReportEntry,
+  RunRemindersOptions,
+} from '../types';
+import type { Signatures } from './signatures';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_COOLDOWN_MS = 24 * HOUR_MS;
+const DEFAULT_LEVEL = 'normal';
+const DEFAULT_ESCALATION: ReminderEscalation[] = [
+  { beforeDueMs: 72 * HOUR_MS, cooldownMs: 12 * HOUR_MS, level: 'soon' },
+  { beforeDueMs: 24 * HOUR_MS, cooldownMs: 4 * HOUR_MS, level: 'final' },
+];
+
+function latest(...dates: Array<string | Date | undefined>): Date | undefined {
+  const times = dates
+    .map((date) => (date === undefined ? NaN : new Date(date).getTime()))
+    .filter((time) => !Number.isNaN(time));
+  return times.length ? new Date(Math.max(...times)) : undefined;
+}
+
+export class Reminders {
+  constructor(private signatures: Signatures) {}
+
+  /**
+   * Remind signers of pending requests who have not signed yet
+   *
+   * Walks every page of pending requests. A signer is reminded once the cooldown since their
+   * last reminder (or their invitation) has passed. `lastRemindedAt` must report the reminders
+   * your channel sent, as the API only knows about its own; the cooldown shortens as the deadline nears,
+   * per `escalation`. Channel failures are recorded in the report and do not stop the run.
+   *
+   * @example
+   * ```typescript
+   * const report = await chaindoc.reminders.run({
+   *   channel: {
+   *     send: ({ request, signer, level }) => mailer.sendReminder(signer.signerEmail, request.uuid, level),
+   *   },
+   *   lastRemindedAt: (request, signer) => db.lastReminder(request.uuid, signer.signerEmail),
+   * });
+   *
+   * console.log(`${report.reminded} reminded, ${report.failed} failed`);
+   * ```
+   */
+  async run(options: RunRemindersOptions): Promise<ReminderReport> {
+    if (typeof options.lastRemindedAt !== 'function') {
+      throw new ChaindocError('lastRemindedAt is required, so signers already reminded by your channel are not reminded again');
+    }
+    const startedAt = new Date().toISOString();
+    const dryRun = !!options.dryRun;
+    // Most urgent rule first
+    const escalation = [...(options.escalation ?? DEFAULT_ESCALATION)].sort((a, b) => a.beforeDueMs - b.beforeDueMs);
+    const entries: ReminderReportEntry[] = [];
+    let scannedRequests = 0;
+
+    const pending = this.signatures.iterateMyRequests({
+      ...callOptionsOf(options),
+      status: 'pending',
+      filter: options.filter,
+    });
+
+    for await (const request of pending) {
+      scannedRequests++;
+      const dueAt = Date.parse(request.dueDate);
+
+      for (const signer of request.signers) {
+        if (signer.signedAt) {
+          continue;
+        }
+        options.signal?.throwIfAborted();
+
+        const now = Date.now();
+        const entry = {
+          requestId: request.id,
+          requestUuid: request.uuid,
+          signerEmail: signer.signerEmail,
+          dueDate: request.dueDate,
+        };
+        if (dueAt <= now) {
+          entries.push({ ...entry, outcome: 'overdue' });
+          continue;
+        }
+
+        const rule = escalation.find(({ beforeDueMs }) => dueAt - now <= beforeDueMs);
+        const level = rule?.level ?? DEFAULT_LEVEL;
+        const cooldownMs = rule?.cooldownMs ?? options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+        const lastContact = latest(
+          signer.remindedAt,
+          (await options.lastRemindedAt(request, signer)) ?? undefined,
+          signer.createdAt ?? request.createdAt
+        );
+
+        if (lastContact && now - lastContact.getTime() < cooldownMs) {
+          entries.push({
+            ...entry,
+            level,
+            outcome: 'cooldown',
+            nextReminderAt: new Date(lastContact.getTime() + cooldownMs).toISOString(),
+          });
+          continue;
+        }
+
+        if (dryRun) {
+          entries.push({ ...entry, level, outcome: 'dry_run' });
+          continue;
+        }
+
+        try {
+          await options.channel.send({ request, signer, level, lastContactAt: lastContact?.toISOString() });
+          entries.push({ ...entry, level, outcome: 'sent' });
+        } catch (error) {
+          entries.push({ ...entry, level, outcome: 'failed', error });
+        }
+      }
+    }
+
+    const reminded = entries.filter(({ outcome }) => outcome === 'sent' || outcome === 'dry_run').length;
+    const failed = entries.filter(({ outcome }) => outcome === 'failed').length;
+    return {
+      dryRun,
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      scannedRequests,
+      reminded,
+      skipped: entries.length - reminded - failed,
+      failed,
+      entries,
+    };
+  }
+}
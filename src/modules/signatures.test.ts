@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { Chaindoc } from '../chaindoc';
+import { ChaindocError } from '../errors';
+import { FakeChaindocServer } from '../testing';
+import type { RenewSignatureRequestOptions } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function setup() {
+  const fake = new FakeChaindocServer();
+  const chaindoc = new Chaindoc({ secretKey: 'sk_test_fake', fetch: fake.fetch });
+  const { media } = await chaindoc.media.upload([{ data: new TextEncoder().encode('%PDF-1.4\n'), filename: 'a.pdf' }]);
+  const { document } = await chaindoc.documents.create({
+    name: 'Contract',
+    description: '',
+    media: media[0]!,
+    meta: [],
+    hashtags: [],
+    status: 'published',
+  });
+  const versionUuid = document.versions[0]!.uuid;
+  const { signatureRequest } = await chaindoc.signatures.createRequest({
+    versionId: versionUuid,
+    recipients: [{ email: 'signed@example.com' }, { email: 'pending@example.com' }],
+    deadline: new Date(Date.now() + HOUR_MS),
+    message: 'Please sign',
+  });
+  fake.signAs(signatureRequest.id, 'signed@example.com');
+  return { fake, chaindoc, versionUuid, request: signatureRequest };
+}
+
+describe('signatures.renew', () => {
+  const deadline = new Date(Date.now() + 7 * 24 * HOUR_MS);
+
+  it('creates a new request for the version UUID', async () => {
+    const { fake, chaindoc, versionUuid, request } = await setup();
+    fake.advanceTime(2 * HOUR_MS);
+
+    const renewal = await chaindoc.signatures.renew(request.uuid, {
+      deadline,
+      versionUuid: () => versionUuid,
+      onlyUnsigned: true,
+    });
+
+    expect(renewal).toMatchObject({ previousRequestUuid: request.uuid, recipients: ['pending@example.com'] });
+    expect(renewal.response.signatureRequest.messageText).toBe('Please sign');
+    const created = fake.requests.filter(({ method, path }) => method === 'POST' && path === '/api/v1/signatures/requests');
+    expect(created.at(-1)!.body).toMatchObject({ versionId: versionUuid });
+  });
+
+  it('refuses to renew a pending request', async () => {
+    const { chaindoc, versionUuid, request } = await setup();
+
+    await expect(
+      chaindoc.signatures.renew(request.uuid, { deadline, versionUuid: () => versionUuid })
+    ).rejects.toThrow('it is pending');
+  });
+
+  it('rejects when versionUuid resolves no UUID', async () => {
+    const { fake, chaindoc, request } = await setup();
+    fake.advanceTime(2 * HOUR_MS);
+    const sent = fake.requests.length;
+
+    await expect(chaindoc.signatures.renew(request.uuid, { deadline, versionUuid: () => undefined })).rejects.toThrow(
+      'versionUuid returned no UUID'
+    );
+    expect(fake.requests.slice(sent).every(({ method }) => method === 'GET')).toBe(true);
+  });
+
+  it('requires versionUuid', async () => {
+    const { chaindoc, request } = await setup();
+    const options = { deadline } as RenewSignatureRequestOptions;
+
+    await expect(chaindoc.signatures.renew(request.uuid, options)).rejects.toBeInstanceOf(ChaindocError);
+    await expect(chaindoc.signatures.renewExpired(options)).rejects.toBeInstanceOf(ChaindocError);
+  });
+
+  it('renews each expired request once', async () => {
+    const { fake, chaindoc, versionUuid } = await setup();
+    fake.advanceTime(2 * HOUR_MS);
+
+    const first = await chaindoc.signatures.renewExpired({ deadline, versionUuid: () => versionUuid });
+    const second = await chaindoc.signatures.renewExpired({ deadline, versionUuid: () => versionUuid });
+
+    expect(first.renewed).toHaveLength(1);
+    expect(first.failed).toHaveLength(0);
+    expect(second.renewed).toHaveLength(0);
+  });
+});
@@ -3,16 +3,44 @@
  */
 
 import type { HttpClient } from '../client';
+import { callOptionsOf } from '../client';
+import { ChaindocError, NotFoundError } from '../errors';
+import { PageIterator } from '../pagination';
+import { poll } from '../polling';
+import { validateCreateSignatureRequestParams } from '../request-validation';
+import {
+  getMyRequestsResponse,
+  getSignaturesResponse,
+  signDocumentResponse,
+  signatureRequestResponse,
+  signatureRequestStatus,
+} from '../response-schemas';
 import type {
+  CallOptions,
   CreateSignatureRequestParams,
   SignDocumentParams,
+  SignDocumentResponse,
   SignatureRequestResponse,
   SignatureRequestStatus,
   PaginationParams,
   GetMyRequestsResponse,
   GetSignaturesResponse,
+  IdempotentCallOptions,
+  IterateSignatureRequestsOptions,
+  RenewExpiredOptions,
+  RenewExpiredResult,
+  RenewSignatureRequestOptions,
+  SignatureRequest,
+  SignatureRequestOutcome,
+  SignatureRequestRenewal,
+  WaitForCompletionOptions,
 } from '../types';
 
+/**
+ * Meta tag linking a renewed request to the request it replaces
+ */
+const RENEWED_FROM_META_KEY = 'chaindoc.renewedFrom';
+
 export class Signatures {
   constructor(private client: HttpClient) {}
 
@@ -22,50 +50,287 @@ export class Signatures {
    * When embeddedFlow=true and isKycRequired=true:
    * - Recipients must include shareToken for KYC verification
    * - Backend validates KYC via Sumsub before creating request
+   *
+   * Parameters are checked before sending (recipient emails and duplicates, future deadline,
+   * share tokens); all problems are thrown together as RequestValidationError.
+   *
+   * Retries reuse the same idempotency key, so a timed-out call never creates a duplicate request.
    */
-  async createRequest(params: CreateSignatureRequestParams): Promise<SignatureRequestResponse> {
-    return this.client.post<SignatureRequestResponse>('/api/v1/signatures/requests', {
-      ...params,
-      deadline: params.deadline.toISOString(),
-    });
+  async createRequest(
+    params: CreateSignatureRequestParams,
+    options?: IdempotentCallOptions
+  ): Promise<SignatureRequestResponse> {
+    validateCreateSignatureRequestParams(params);
+    return this.client.post<SignatureRequestResponse>(
+      '/api/v1/signatures/requests',
+      {
+        ...params,
+        deadline: params.deadline.toISOString(),
+      },
+      { ...options, schema: signatureRequestResponse }
+    );
   }
 
   /**
    * Get signature request status
+   * Served from the response cache once the request is completed, expired or cancelled
+   */
+  async getRequestStatus(requestId: string, options?: CallOptions): Promise<SignatureRequestStatus> {
+    return this.client.get<SignatureRequestStatus>(`/api/v1/signatures/requests/${requestId}/status`, {
+      ...options,
+      schema: signatureRequestStatus,
+      cache: {
+        read: 'requestStatus',
+        key: requestId,
+        when: (status) => status.status !== 'pending',
+        tags: (status) => [`signature-request:${requestId}`, `signature-request:${status.requestId}`],
+      },
+    });
+  }
+
+  /**
+   * Poll request status until it is completed, expired or cancelled
+   *
+   * @example
+   * ```typescript
+   * const result = await chaindoc.signatures.waitForCompletion(requestId, {
+   *   timeoutMs: 24 * 60 * 60 * 1000,
+   *   intervalMs: 30000,
+   *   onProgress: ({ signedCount, pendingCount }) => console.log(`${signedCount} signed, ${pendingCount} pending`),
+   * });
+   *
+   * if (result.outcome === 'completed') {
+   *   // All signers signed
+   * }
+   * ```
    */
-  async getRequestStatus(requestId: string): Promise<SignatureRequestStatus> {
-    return this.client.get<SignatureRequestStatus>(`/api/v1/signatures/requests/${requestId}/status`);
+  async waitForCompletion(requestId: string, options?: WaitForCompletionOptions): Promise<SignatureRequestOutcome> {
+    return poll(
+      `signature request ${requestId}`,
+      () => this.getRequestStatus(requestId, callOptionsOf(options)),
+      (status): SignatureRequestOutcome | undefined =>
+        status.status === 'pending' ? undefined : { outcome: status.status, status },
+      options
+    );
   }
 
   /**
    * Get all signature requests for current user
    */
-  async getMyRequests(pagination?: PaginationParams): Promise<GetMyRequestsResponse> {
+  async getMyRequests(pagination?: PaginationParams, options?: CallOptions): Promise<GetMyRequestsResponse> {
     const params = new URLSearchParams();
     if (pagination?.pageNumber) params.set('pageNumber', String(pagination.pageNumber));
     if (pagination?.pageSize) params.set('pageSize', String(pagination.pageSize));
 
     const query = params.toString();
-    return this.client.get<GetMyRequestsResponse>(`/api/v1/signatures/requests${query ? `?${query}` : ''}`);
+    return this.client.get<GetMyRequestsResponse>(`/api/v1/signatures/requests${query ? `?${query}` : ''}`, {
+      ...options,
+      schema: getMyRequestsResponse,
+    });
   }
 
   /**
    * Sign a document
    * API key owner must be one of the signatories.
    */
-  async sign(params: SignDocumentParams): Promise<{ success: boolean; requestId: string; signedAt: string; message: string }> {
-    return this.client.post('/api/v1/signatures/sign', params);
+  async sign(
+    params: SignDocumentParams,
+    options?: IdempotentCallOptions
+  ): Promise<SignDocumentResponse> {
+    return this.client.post<SignDocumentResponse>('/api/v1/signatures/sign', params, {
+      ...options,
+      schema: signDocumentResponse,
+      invalidates: [`signature-request:${params.requestId}`],
+    });
+  }
+
+  /**
+   * Re-issue an expired or cancelled signature request with a new deadline
+   *
+   * The new request keeps the original's version, message, meta, embedded flow and KYC settings,
+   * and gets a `chaindoc.renewedFrom` meta tag with the original's UUID. Accepts a request or its
+   * ID/UUID. Requests only carry the numeric version ID, so `versionUuid` maps it to the version
+   * UUID the new request is created for. The idempotency key defaults to one derived from the
+   * original, so a repeated call returns the same renewal instead of creating another request.
+   *
+   * @example
+   * ```typescript
+   * const renewal = await chaindoc.signatures.renew(expiredRequest, {
+   *   deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+   *   versionUuid: (request) => db.versions.uuidById(request.versionId),
+   *   onlyUnsigned: true,
+   * });
+   *
+   * await db.requests.update(renewal.previousRequestUuid, { replacedBy: renewal.requestUuid });
+   * ```
+   */
+  async renew(
+    requestOrId: SignatureRequest | string,
+    options: RenewSignatureRequestOptions
+  ): Promise<SignatureRequestRenewal> {
+    assertVersionUuid(options);
+    const { deadline, versionUuid, onlyUnsigned, shareTokens, idempotencyKey, ...callOptions } = options;
+    const request =
+      typeof requestOrId === 'string' ? await this.findMyRequest(requestOrId, callOptions) : requestOrId;
+    if (request.status !== 'expired' && request.status !== 'cancelled') {
+      throw new ChaindocError(`Cannot renew signature request ${request.uuid}: it is ${request.status}`);
+    }
+
+    const signers = onlyUnsigned ? request.signers.filter((signer) => !signer.signedAt) : request.signers;
+    if (signers.length === 0) {
+      throw new ChaindocError(`Cannot renew signature request ${request.uuid}: every signer has signed`);
+    }
+    const versionId = await versionUuid(request);
+    if (!versionId) {
+      throw new ChaindocError(
+        `Cannot renew signature request ${request.uuid}: versionUuid returned no UUID for version ${request.versionId}`
+      );
+    }
+
+    const response = await this.createRequest(
+      {
+        versionId,
+        recipients: signers.map(({ signerEmail }) => {
+          const shareToken = shareTokens?.[signerEmail];
+          return shareToken ? { email: signerEmail, shareToken } : { email: signerEmail };
+        }),
+        deadline,
+        message: request.messageText,
+        meta: [
+          ...(request.meta ?? []).filter(({ key }) => key !== RENEWED_FROM_META_KEY),
+          { key: RENEWED_FROM_META_KEY, value: request.uuid },
+        ],
+        embeddedFlow: request.embeddedFlow,
+        isKycRequired: request.isKycRequired,
+      },
+      { ...callOptions, idempotencyKey: idempotencyKey ?? `renew-${request.uuid}` }
+    );
+
+    return {
+      previousRequestId: request.id,
+      previousRequestUuid: request.uuid,
+      requestId: response.signatureRequest.id,
+      requestUuid: response.signatureRequest.uuid,
+      recipients: signers.map(({ signerEmail }) => signerEmail),
+      response,
+    };
+  }
+
+  /**
+   * Renew every expired request that has not been renewed yet
+   *
+   * Meant for a nightly job: requests already renewed by an earlier run are recognised by the
+   * `chaindoc.renewedFrom` meta tag on their renewal and skipped. A failed renewal is reported in
+   * `failed` and the sweep continues.
+   *
+   * @example
+   * ```typescript
+   * const { renewed, failed } = await chaindoc.signatures.renewExpired({
+   *   deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+   *   versionUuid: (request) => db.versions.uuidById(request.versionId),
+   *   onlyUnsigned: true,
+   *   filter: (request) => request.meta?.some(({ key, value }) => key === 'autoRenew' && value === 'true') ?? false,
+   * });
+   * ```
+   */
+  async renewExpired(options: RenewExpiredOptions): Promise<RenewExpiredResult> {
+    assertVersionUuid(options);
+    const { filter, signal, ...renewOptions } = options;
+    const requests = await this.iterateMyRequests(callOptionsOf(options)).toArray();
+    const renewedUuids = new Set(
+      requests.flatMap(({ meta }) => (meta ?? []).filter(({ key }) => key === RENEWED_FROM_META_KEY).map(({ value }) => value))
+    );
+
+    const result: RenewExpiredResult = { renewed: [], failed: [] };
+    for (const request of requests) {
+      if (request.status !== 'expired' || renewedUuids.has(request.uuid) || (filter && !filter(request))) {
+        continue;
+      }
+      signal?.throwIfAborted();
+
+      try {
+        result.renewed.push(await this.renew(request, { ...renewOptions, signal }));
+      } catch (error) {
+        result.failed.push({ request, error });
+      }
+    }
+    return result;
   }
 
   /**
    * Get user's signatures (signature requests where user is a signer)
    */
-  async getSignatures(pagination?: PaginationParams): Promise<GetSignaturesResponse> {
+  async getSignatures(pagination?: PaginationParams, options?: CallOptions): Promise<GetSignaturesResponse> {
     const params = new URLSearchParams();
     if (pagination?.pageNumber) params.set('pageNumber', String(pagination.pageNumber));
     if (pagination?.pageSize) params.set('pageSize', String(pagination.pageSize));
 
     const query = params.toString();
-    return this.client.get<GetSignaturesResponse>(`/api/v1/signatures${query ? `?${query}` : ''}`);
+    return this.client.get<GetSignaturesResponse>(`/api/v1/signatures${query ? `?${query}` : ''}`, {
+      ...options,
+      schema: getSignaturesResponse,
+    });
+  }
+
+  /**
+   * Iterate over all signature requests for current user, across every page
+   *
+   * @example
+   * ```typescript
+   * for await (const request of chaindoc.signatures.iterateMyRequests({ status: 'pending' })) {
+   *   // ...
+   * }
+   *
+   * const expired = await chaindoc.signatures.iterateMyRequests({ status: 'expired' }).toArray({ limit: 500 });
+   * ```
+   */
+  iterateMyRequests(options: IterateSignatureRequestsOptions = {}): PageIterator<SignatureRequest> {
+    return new PageIterator(
+      (pagination) => this.getMyRequests(pagination, callOptionsOf(options)),
+      withStatusFilter(options)
+    );
+  }
+
+  /**
+   * Iterate over all of the user's signatures, across every page
+   */
+  iterateSignatures(options: IterateSignatureRequestsOptions = {}): PageIterator<SignatureRequest> {
+    return new PageIterator(
+      (pagination) => this.getSignatures(pagination, callOptionsOf(options)),
+      withStatusFilter(options)
+    );
+  }
+
+  private async findMyRequest(requestId: string, options: CallOptions): Promise<SignatureRequest> {
+    const matches = this.iterateMyRequests({
+      ...callOptionsOf(options),
+      filter: (request) => String(request.id) === requestId || request.uuid === requestId,
+    });
+    for await (const request of matches) {
+      return request;
+    }
+    throw new NotFoundError(`Signature request ${requestId} not found`);
+  }
+}
+
+/**
+ * Requests only carry the numeric version ID, so renewals need the caller to map it to the UUID
+ */
+function assertVersionUuid(options: { versionUuid?: unknown }): void {
+  if (typeof options.versionUuid !== 'function') {
+    throw new ChaindocError('versionUuid is required to renew signature requests');
   }
 }
+
+function withStatusFilter(options: IterateSignatureRequestsOptions): IterateSignatureRequestsOptions {
+  const { status, filter } = options;
+  if (!status) {
+    return options;
+  }
+
+  const statuses = Array.isArray(status) ? status : [status];
+  return {
+    ...options,
+    filter: (request) => statuses.includes(request.status) && (!filter || filter(request)),
+  };
+}
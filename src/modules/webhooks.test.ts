@@ -0,0 +1,61 @@
+import { createHmac } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { WebhookVerificationError } from '../errors';
+import { Webhooks } from './webhooks';
+
+const SECRET = 'whsec_test';
+
+function sign(payload: string, secret = SECRET): string {
+  return `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+}
+
+function delivery(type: string, createdAt = new Date().toISOString()): string {
+  return JSON.stringify({ id: 'evt_1', type, createdAt, data: { signatureRequestId: 42 } });
+}
+
+describe('Webhooks.constructEvent', () => {
+  const webhooks = new Webhooks(SECRET);
+
+  it('returns a signed event', () => {
+    const payload = delivery('signature.completed');
+
+    expect(webhooks.constructEvent(payload, sign(payload))).toMatchObject({
+      id: 'evt_1',
+      type: 'signature.completed',
+    });
+  });
+
+  it('returns signed events of unknown types as received', () => {
+    const payload = delivery('document.archived');
+
+    expect(webhooks.constructEvent(payload, sign(payload))).toEqual(JSON.parse(payload));
+  });
+
+  it('rejects a payload signed with another secret', () => {
+    const payload = delivery('signature.completed');
+
+    expect(() => webhooks.constructEvent(payload, sign(payload, 'whsec_other'))).toThrow(WebhookVerificationError);
+    expect(() => webhooks.constructEvent(payload, undefined)).toThrow(WebhookVerificationError);
+  });
+
+  it('rejects a payload modified after signing', () => {
+    const payload = delivery('signature.completed');
+
+    expect(() => webhooks.constructEvent(payload.replace('42', '43'), sign(payload))).toThrow(
+      'Invalid webhook signature'
+    );
+  });
+
+  it('rejects an event outside the tolerance window', () => {
+    const payload = delivery('signature.completed', new Date(Date.now() - 10 * 60 * 1000).toISOString());
+
+    expect(() => webhooks.constructEvent(payload, sign(payload))).toThrow('outside the tolerance window');
+    expect(webhooks.constructEvent(payload, sign(payload), { tolerance: 0 }).id).toBe('evt_1');
+  });
+
+  it('rejects a signed payload that is not an event', () => {
+    const payload = JSON.stringify({ hello: 'world' });
+
+    expect(() => webhooks.constructEvent(payload, sign(payload))).toThrow('not a Chaindoc event');
+  });
+});
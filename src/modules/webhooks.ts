@@ -0,0 +1,124 @@
+/**
+ * Webhooks Module
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { ChaindocError, WebhookVerificationError } from '../errors';
+import type { ConstructWebhookEventOptions, WebhookEvent } from '../types';
+
+/**
+ * Header carrying the HMAC-SHA256 signature of the raw request body
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-chaindoc-signature';
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export class Webhooks {
+  constructor(private secret?: string) {}
+
+  /**
+   * Check the signature header against the raw request body
+   * Uses a timing-safe comparison. Does not parse or check the timestamp.
+   */
+  verifySignature(payload: string | Uint8Array, signature: string | undefined, secret?: string): boolean {
+    const signingSecret = this.resolveSecret(secret);
+    if (!signature) {
+      return false;
+    }
+
+    const received = Buffer.from(signature.trim().replace(/^sha256=/, ''), 'hex');
+    const expected = createHmac('sha256', signingSecret).update(payload).digest();
+
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  }
+
+  /**
+   * Verify and parse a webhook delivery
+   *
+   * Pass the raw body exactly as received - re-serialized JSON will not match the signature.
+   * Signed events of a type added after this SDK version are returned as received (see
+   * `UnknownWebhookEvent`), so acknowledge them from a `default:` branch instead of failing
+   * the delivery.
+   *
+   * @example
+   * ```typescript
+   * app.post('/webhooks/chaindoc', express.raw({ type: 'application/json' }), (req, res) => {
+   *   let event: WebhookEvent;
+   *   try {
+   *     event = chaindoc.webhooks.constructEvent(req.body, req.header(WEBHOOK_SIGNATURE_HEADER));
+   *   } catch {
+   *     return res.status(400).send('Invalid webhook');
+   *   }
+   *
+   *   switch (event.type) {
+   *     case 'signature.completed':
+   *       // event.data is SignatureCompletedEventData
+   *       break;
+   *     case 'document.verified':
+   *       // event.data is DocumentVerifiedEventData
+   *       break;
+   *     default:
+   *       console.log('Unhandled event', (event as UnknownWebhookEvent).type);
+   *   }
+   *
+   *   res.sendStatus(200);
+   * });
+   * ```
+   */
+  constructEvent(
+    payload: string | Uint8Array,
+    signature: string | undefined,
+    options: ConstructWebhookEventOptions = {}
+  ): WebhookEvent {
+    if (!this.verifySignature(payload, signature, options.secret)) {
+      throw new WebhookVerificationError('Invalid webhook signature');
+    }
+
+    const raw = typeof payload === 'string' ? payload : Buffer.from(payload).toString('utf8');
+    let event: unknown;
+    try {
+      event = JSON.parse(raw);
+    } catch {
+      throw new WebhookVerificationError('Webhook payload is not valid JSON');
+    }
+
+    if (!isWebhookEvent(event)) {
+      throw new WebhookVerificationError('Webhook payload is not a Chaindoc event');
+    }
+
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE_SECONDS;
+    if (tolerance > 0) {
+      const createdAt = Date.parse(event.createdAt);
+      if (Number.isNaN(createdAt)) {
+        throw new WebhookVerificationError('Webhook event has an invalid createdAt timestamp');
+      }
+      if (Math.abs(Date.now() - createdAt) > tolerance * 1000) {
+        throw new WebhookVerificationError('Webhook event timestamp is outside the tolerance window');
+      }
+    }
+
+    return event;
+  }
+
+  private resolveSecret(secret?: string): string {
+    const resolved = secret ?? this.secret;
+    if (!resolved) {
+      throw new ChaindocError('webhookSecret is required to verify webhooks');
+    }
+    return resolved;
+  }
+}
+
+function isWebhookEvent(value: unknown): value is WebhookEvent {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const event = value as Record<string, unknown>;
+  return (
+    typeof event.id === 'string' &&
+    typeof event.createdAt === 'string' &&
+    typeof event.type === 'string' &&
+    !!event.data &&
+    typeof event.data === 'object'
+  );
+}
@@ -0,0 +1,400 @@
+/**
+ * Signing Workflows Module
+ *
+ * Sequential signing on top of signature requests: each signer group gets its
+ * own request for the same version, created once the previous group completes.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ChaindocError } from '../errors';
+import { validateStartSigningWorkflowParams } from '../request-validation';
+import type {
+  CallOptions,
+  EmbeddedSessionResponse,
+  SigningStep,
+  SigningStepStatus,
+  SigningWorkflowEventType,
+  SigningWorkflowHistoryEntry,
+  SigningWorkflowState,
+  SigningWorkflowStatus,
+  SigningWorkflowStorage,
+  StartSigningWorkflowParams,
+  WebhookEvent,
+} from '../types';
+import type { Embedded } from './embedded';
+import type { Signatures } from './signatures';
+
+/**
+ * Default storage, kept in process memory
+ * Workflows are lost on restart; implement `SigningWorkflowStorage` over your database for production
+ */
+export class MemoryWorkflowStorage implements SigningWorkflowStorage {
+  private workflows = new Map<string, SigningWorkflowState>();
+
+  async load(id: string): Promise<SigningWorkflowState | undefined> {
+    const state = this.workflows.get(id);
+    return state && structuredClone(state);
+  }
+
+  async save(state: SigningWorkflowState): Promise<void> {
+    this.workflows.set(state.id, structuredClone(state));
+  }
+
+  async findByRequestId(requestId: string): Promise<SigningWorkflowState | undefined> {
+    for (const state of this.workflows.values()) {
+      if (state.steps.some((step) => String(step.requestId) === requestId || step.requestUuid === requestId)) {
+        return structuredClone(state);
+      }
+    }
+    return undefined;
+  }
+}
+
+interface WorkflowContext {
+  signatures: Signatures;
+  embedded: Embedded;
+  storage: SigningWorkflowStorage;
+  /** Serializes updates to the same workflow within this process */
+  exclusive<T>(id: string, task: () => Promise<T>): Promise<T>;
+}
+
+/**
+ * A running or finished signing workflow
+ * State is re-read from storage before every update, so instances may be short-lived
+ */
+export class SigningWorkflow {
+  constructor(
+    private context: WorkflowContext,
+    private snapshot: SigningWorkflowState
+  ) {}
+
+  get id(): string {
+    return this.snapshot.id;
+  }
+
+  get status(): SigningWorkflowStatus {
+    return this.snapshot.status;
+  }
+
+  /**
+   * Index of the active step; equals `steps.length` once every step is done
+   */
+  get currentStep(): number {
+    return this.snapshot.currentStep;
+  }
+
+  /**
+   * The active step, undefined once the workflow has finished
+   */
+  get current(): SigningStep | undefined {
+    return this.snapshot.status === 'in_progress' ? this.snapshot.steps[this.snapshot.currentStep] : undefined;
+  }
+
+  get steps(): readonly SigningStep[] {
+    return this.snapshot.steps;
+  }
+
+  get history(): readonly SigningWorkflowHistoryEntry[] {
+    return this.snapshot.history;
+  }
+
+  /**
+   * Copy of the persisted state
+   */
+  toJSON(): SigningWorkflowState {
+    return structuredClone(this.snapshot);
+  }
+
+  /**
+   * Check the active step's request and start the next step once it completes
+   *
+   * Call it from a scheduler, or let `chaindoc.workflows.handleEvent` call it for webhook deliveries.
+   * A request that expired or was cancelled in Chaindoc ends the workflow with the same status.
+   */
+  async advance(options?: CallOptions): Promise<this> {
+    return this.update(async (state) => {
+      if (state.status !== 'in_progress') {
+        return;
+      }
+      const step = state.steps[state.currentStep]!;
+      if (step.status === 'waiting') {
+        // A new workflow, or an earlier start that failed before its request was created
+        await this.startStep(state, options);
+        return;
+      }
+
+      const { status } = await this.context.signatures.getRequestStatus(String(step.requestId), options);
+      if (status === 'completed') {
+        this.finishStep(state, 'completed', 'step_completed');
+        await this.startNextStep(state, options);
+      } else if (status === 'expired' || status === 'cancelled') {
+        this.finishStep(state, status, status === 'expired' ? 'step_expired' : 'step_cancelled');
+        state.status = status;
+      }
+    });
+  }
+
+  /**
+   * Move past the active step without waiting for its signers
+   * The step's signature request stays open in Chaindoc
+   */
+  async skip(reason?: string, options?: CallOptions): Promise<this> {
+    return this.update(async (state) => {
+      this.assertInProgress(state, 'skip');
+      this.finishStep(state, 'skipped', 'step_skipped', reason);
+      await this.startNextStep(state, options);
+    });
+  }
+
+  /**
+   * Stop the workflow; later steps are never started
+   * The active step's signature request stays open in Chaindoc
+   */
+  async cancel(reason?: string): Promise<this> {
+    return this.update(async (state) => {
+      this.assertInProgress(state, 'cancel');
+      const step = state.steps[state.currentStep]!;
+      step.status = 'aborted';
+      step.finishedAt = new Date().toISOString();
+      state.status = 'aborted';
+      this.record(state, 'aborted', { step: state.currentStep, requestId: step.requestId, reason });
+    });
+  }
+
+  /**
+   * Create a fresh embedded session for a signer of the active step
+   * Sessions are short-lived, so create one when the signer opens your app
+   */
+  async createSession(email: string, options?: CallOptions): Promise<EmbeddedSessionResponse> {
+    const state = await this.reload();
+    const step = state.status === 'in_progress' ? state.steps[state.currentStep] : undefined;
+    if (!step?.requestUuid || !state.documentId) {
+      throw new ChaindocError(`Workflow ${state.id} has no active step with a signature request`);
+    }
+    if (!step.recipients.some((recipient) => recipient.email.toLowerCase() === email.toLowerCase())) {
+      throw new ChaindocError(`${email} is not a signer of step ${state.currentStep} of workflow ${state.id}`);
+    }
+    return this.createStepSession(state, email, options);
+  }
+
+  private async reload(): Promise<SigningWorkflowState> {
+    this.snapshot = (await this.context.storage.load(this.snapshot.id)) ?? this.snapshot;
+    return this.snapshot;
+  }
+
+  private async update(change: (state: SigningWorkflowState) => Promise<void>): Promise<this> {
+    await this.context.exclusive(this.snapshot.id, async () => {
+      const state = await this.reload();
+      try {
+        await change(state);
+      } finally {
+        // Persist partial progress too, e.g. a request created before a session call failed
+        state.updatedAt = new Date().toISOString();
+        await this.context.storage.save(state);
+        this.snapshot = state;
+      }
+    });
+    return this;
+  }
+
+  private assertInProgress(state: SigningWorkflowState, action: string): void {
+    if (state.status !== 'in_progress') {
+      throw new ChaindocError(`Cannot ${action} workflow ${state.id}: it is ${state.status}`);
+    }
+  }
+
+  private record(
+    state: SigningWorkflowState,
+    type: SigningWorkflowEventType,
+    details: Omit<SigningWorkflowHistoryEntry, 'type' | 'at'> = {}
+  ): void {
+    state.history.push({ type, at: new Date().toISOString(), ...details });
+  }
+
+  private finishStep(
+    state: SigningWorkflowState,
+    status: SigningStepStatus,
+    type: SigningWorkflowEventType,
+    reason?: string
+  ): void {
+    const step = state.steps[state.currentStep]!;
+    step.status = status;
+    step.finishedAt = new Date().toISOString();
+    this.record(state, type, { step: state.currentStep, requestId: step.requestId, reason });
+  }
+
+  private async startNextStep(state: SigningWorkflowState, options?: CallOptions): Promise<void> {
+    state.currentStep++;
+    if (state.currentStep >= state.steps.length) {
+      state.status = 'completed';
+      this.record(state, 'completed');
+      return;
+    }
+    await this.startStep(state, options);
+  }
+
+  private async startStep(state: SigningWorkflowState, options?: CallOptions): Promise<void> {
+    const index = state.currentStep;
+    const step = state.steps[index]!;
+
+    // Derived key: a retried or concurrent start never creates a second request for the step
+    const { signatureRequest } = await this.context.signatures.createRequest(
+      {
+        versionId: state.versionId,
+        recipients: step.recipients,
+        deadline: new Date(state.deadline),
+        message: state.message,
+        meta: state.meta,
+        embeddedFlow: state.embeddedFlow,
+        isKycRequired: state.isKycRequired,
+      },
+      { ...options, idempotencyKey: `workflow-${state.id}-step-${index}` }
+    );
+    step.status = 'pending';
+    step.requestId = signatureRequest.id;
+    step.requestUuid = signatureRequest.uuid;
+    step.startedAt = new Date().toISOString();
+    this.record(state, 'step_started', { step: index, requestId: signatureRequest.id });
+
+    if (state.embeddedFlow) {
+      for (const recipient of step.recipients) {
+        const session = await this.createStepSession(state, recipient.email, options);
+        step.sessions.push({ email: recipient.email, sessionId: session.sessionId, expiresAt: session.expiresAt });
+      }
+    }
+  }
+
+  private createStepSession(
+    state: SigningWorkflowState,
+    email: string,
+    options?: CallOptions
+  ): Promise<EmbeddedSessionResponse> {
+    const step = state.steps[state.currentStep]!;
+    return this.context.embedded.createSession(
+      {
+        email,
+        metadata: {
+          documentId: state.documentId!,
+          signatureRequestId: step.requestUuid,
+          returnUrl: state.returnUrl,
+          workflowId: state.id,
+          step: state.currentStep,
+        },
+      },
+      options
+    );
+  }
+}
+
+export class Workflows {
+  private locks: Map<string, Promise<unknown>>;
+  private context: WorkflowContext;
+
+  /**
+   * @param parent Workflows of the client this one is scoped from; its locks are reused,
+   * so updates to a workflow are serialized across scoped clients
+   */
+  constructor(signatures: Signatures, embedded: Embedded, storage: SigningWorkflowStorage, parent?: Workflows) {
+    this.locks = parent?.locks ?? new Map();
+    this.context = {
+      signatures,
+      embedded,
+      storage,
+      exclusive: (id, task) => this.exclusive(id, task),
+    };
+  }
+
+  /**
+   * Start a sequential signing workflow
+   *
+   * Creates the first group's signature request (and embedded sessions with `embeddedFlow`).
+   * Later groups start from `advance()` or `handleEvent()` once the previous group completes.
+   *
+   * @example
+   * ```typescript
+   * const workflow = await chaindoc.workflows.start({
+   *   versionId: doc.document.versions[0].uuid,
+   *   documentId: doc.documentId,
+   *   groups: [
+   *     [{ email: 'ceo@company.com' }],
+   *     [{ email: 'legal@company.com' }, { email: 'finance@company.com' }],
+   *     [{ email: 'client@external.com' }],
+   *   ],
+   *   deadline: new Date('2025-12-31'),
+   *   embeddedFlow: true,
+   * });
+   *
+   * // Later, from a webhook handler
+   * const advanced = await chaindoc.workflows.handleEvent(event);
+   * console.log(advanced?.currentStep, advanced?.current?.sessions);
+   * ```
+   */
+  async start(params: StartSigningWorkflowParams, options?: CallOptions): Promise<SigningWorkflow> {
+    validateStartSigningWorkflowParams(params);
+    const id = params.id ?? randomUUID();
+    if (await this.context.storage.load(id)) {
+      throw new ChaindocError(`Workflow ${id} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const state: SigningWorkflowState = {
+      id,
+      status: 'in_progress',
+      versionId: params.versionId,
+      documentId: params.documentId,
+      deadline: params.deadline.toISOString(),
+      message: params.message,
+      meta: params.meta,
+      embeddedFlow: !!params.embeddedFlow,
+      isKycRequired: !!params.isKycRequired,
+      returnUrl: params.returnUrl,
+      steps: params.groups.map((recipients) => ({ recipients, status: 'waiting', sessions: [] })),
+      currentStep: 0,
+      history: [{ type: 'started', at: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.context.storage.save(state);
+    return new SigningWorkflow(this.context, state).advance(options);
+  }
+
+  /**
+   * Load a workflow from storage
+   */
+  async get(id: string): Promise<SigningWorkflow | undefined> {
+    const state = await this.context.storage.load(id);
+    return state && new SigningWorkflow(this.context, state);
+  }
+
+  /**
+   * Advance the workflow a signature webhook event belongs to
+   * Returns undefined for other events and for requests not started by a workflow
+   *
+   * @example
+   * ```typescript
+   * const event = chaindoc.webhooks.constructEvent(rawBody, signature);
+   * await chaindoc.workflows.handleEvent(event);
+   * ```
+   */
+  async handleEvent(event: WebhookEvent, options?: CallOptions): Promise<SigningWorkflow | undefined> {
+    if (event.type !== 'signature.completed' && event.type !== 'signature.expired' && event.type !== 'signature.cancelled') {
+      return undefined;
+    }
+    const state = await this.context.storage.findByRequestId(String(event.data.requestId));
+    return state && new SigningWorkflow(this.context, state).advance(options);
+  }
+
+  private async exclusive<T>(id: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(id) ?? Promise.resolve();
+    const run = previous.then(task, task);
+    const settled = run.catch(() => undefined);
+    this.locks.set(id, settled);
+    try {
+      return await run;
+    } finally {
+      if (this.locks.get(id) === settled) {
+        this.locks.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * OpenTelemetry adapter for telemetry events
+ *
+ * Typed against the subset of `@opentelemetry/api` it uses, so the SDK does
+ * not depend on it; pass your tracer and meter in.
+ */
+
+import type { TelemetryEvent, TelemetryListener } from "./types";
+
+type Attributes = Record<string, string | number | boolean | undefined>;
+
+/**
+ * Subset of `Span` from `@opentelemetry/api`
+ */
+export interface OpenTelemetrySpan {
+  setAttributes(attributes: Attributes): unknown;
+  addEvent(name: string, attributes?: Attributes): unknown;
+  recordException(exception: Error | string): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * Subset of `Tracer` from `@opentelemetry/api`
+ */
+export interface OpenTelemetryTracer {
+  startSpan(
+    name: string,
+    options?: { kind?: number; attributes?: Attributes }
+  ): OpenTelemetrySpan;
+}
+
+/**
+ * Subset of `Meter` from `@opentelemetry/api`
+ */
+export interface OpenTelemetryMeter {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { record(value: number, attributes?: Attributes): void };
+  createCounter(
+    name: string,
+    options?: { description?: string; unit?: string }
+  ): { add(value: number, attributes?: Attributes): void };
+}
+
+export interface OpenTelemetryListenerOptions {
+  /**
+   * e.g. `trace.getTracer('@chaindoc_io/server-sdk')`; no spans without it
+   */
+  tracer?: OpenTelemetryTracer;
+
+  /**
+   * e.g. `metrics.getMeter('@chaindoc_io/server-sdk')`; no metrics without it
+   */
+  meter?: OpenTelemetryMeter;
+}
+
+// Values of SpanKind.CLIENT and SpanStatusCode.ERROR in @opentelemetry/api
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+function errorType(event: { error: unknown; statusCode?: number }): string {
+  if (event.statusCode !== undefined) {
+    return String(event.statusCode);
+  }
+  return event.error instanceof Error ? event.error.name : "Error";
+}
+
+/**
+ * Create a telemetry listener that records a client span per API call and
+ * request duration and error metrics, using HTTP semantic conventions
+ *
+ * Spans are named `{method} {route}` and carry `http.request.method`,
+ * `url.template`, `http.response.status_code` and `http.request.resend_count`;
+ * each retry is a span event with its delay and reason. Metrics:
+ * `http.client.request.duration` (seconds) and `chaindoc.client.errors`.
+ *
+ * @example
+ * ```typescript
+ * import { metrics, trace } from '@opentelemetry/api';
+ *
+ * const chaindoc = new Chaindoc({
+ *   secretKey: process.env.CHAINDOC_SECRET_KEY!,
+ *   telemetry: createOpenTelemetryListener({
+ *     tracer: trace.getTracer('@chaindoc_io/server-sdk'),
+ *     meter: metrics.getMeter('@chaindoc_io/server-sdk'),
+ *   }),
+ * });
+ * ```
+ */
+export function createOpenTelemetryListener(
+  options: OpenTelemetryListenerOptions
+): TelemetryListener {
+  const { tracer, meter } = options;
+  const spans = new Map<string, OpenTelemetrySpan>();
+  const duration = meter?.createHistogram("http.client.request.duration", {
+    description: "Duration of Chaindoc API calls, including retries",
+    unit: "s",
+  });
+  const errors = meter?.createCounter("chaindoc.client.errors", {
+    description: "Chaindoc API calls that failed after all retries",
+  });
+
+  return (event: TelemetryEvent) => {
+    const attributes: Attributes = {
+      "http.request.method": event.method,
+      "url.template": event.route,
+    };
+
+    switch (event.type) {
+      case "request.start": {
+        const span = tracer?.startSpan(`${event.method} ${event.route}`, {
+          kind: SPAN_KIND_CLIENT,
+          attributes,
+        });
+        if (span) {
+          spans.set(event.callId, span);
+        }
+        return;
+      }
+      case "retry":
+        spans.get(event.callId)?.addEvent("retry", {
+          "chaindoc.retry.attempt": event.attempt,
+          "chaindoc.retry.delay_ms": event.delayMs,
+          "chaindoc.retry.reason": event.reason,
+          "http.response.status_code": event.statusCode,
+        });
+        return;
+      case "upload.progress":
+        spans
+          .get(event.callId)
+          ?.setAttributes({ "http.request.body.size": event.bytesSent });
+        return;
+      case "response": {
+        const span = spans.get(event.callId);
+        spans.delete(event.callId);
+        span?.setAttributes({
+          "http.response.status_code": event.statusCode,
+          "http.request.resend_count": Math.max(event.attempts - 1, 0),
+          "chaindoc.request_id": event.requestId,
+        });
+        span?.end();
+        duration?.record(event.durationMs / 1000, {
+          ...attributes,
+          "http.response.status_code": event.statusCode,
+        });
+        return;
+      }
+      case "error": {
+        const span = spans.get(event.callId);
+        spans.delete(event.callId);
+        const type = errorType(event);
+        span?.setAttributes({
+          "http.response.status_code": event.statusCode,
+          "http.request.resend_count": Math.max(event.attempts - 1, 0),
+          "chaindoc.request_id": event.requestId,
+          "error.type": type,
+        });
+        if (event.error instanceof Error) {
+          span?.recordException(event.error);
+        }
+        span?.setStatus({
+          code: SPAN_STATUS_ERROR,
+          message:
+            event.error instanceof Error ? event.error.message : undefined,
+        });
+        span?.end();
+        duration?.record(event.durationMs / 1000, {
+          ...attributes,
+          "http.response.status_code": event.statusCode,
+          "error.type": type,
+        });
+        errors?.add(1, { ...attributes, "error.type": type });
+        return;
+      }
+    }
+  };
+}
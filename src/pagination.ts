@@ -0,0 +1,82 @@
+/**
+ * Auto-pagination for list endpoints
+ */
+
+import type {
+  IteratePagesOptions,
+  PaginationParams,
+  ToArrayOptions,
+} from "./types";
+
+const DEFAULT_PAGE_SIZE = 100;
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  pageNumber: number;
+  pageSize: number;
+}
+
+export type PageFetcher<T> = (
+  pagination: Required<PaginationParams>
+) => Promise<Page<T>>;
+
+/**
+ * Async iterable over every item of a paginated endpoint
+ * Pages are fetched lazily as iteration proceeds
+ *
+ * @example
+ * ```typescript
+ * for await (const request of chaindoc.signatures.iterateMyRequests({ status: 'pending' })) {
+ *   console.log(request.uuid);
+ * }
+ * ```
+ */
+export class PageIterator<T> implements AsyncIterable<T> {
+  constructor(
+    private fetchPage: PageFetcher<T>,
+    private options: IteratePagesOptions<T> = {}
+  ) {}
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    const { signal, filter } = this.options;
+    const pageSize = this.options.pageSize ?? DEFAULT_PAGE_SIZE;
+    let pageNumber = 1;
+    let fetched = 0;
+
+    for (;;) {
+      signal?.throwIfAborted();
+      const page = await this.fetchPage({ pageNumber, pageSize });
+
+      for (const item of page.items) {
+        if (!filter || filter(item)) {
+          yield item;
+        }
+      }
+
+      fetched += page.items.length;
+      if (page.items.length === 0 || fetched >= page.total) {
+        return;
+      }
+      pageNumber++;
+    }
+  }
+
+  /**
+   * Collect items into an array, stopping after `limit` items
+   */
+  async toArray(options: ToArrayOptions = {}): Promise<T[]> {
+    const items: T[] = [];
+    if (options.limit !== undefined && options.limit <= 0) {
+      return items;
+    }
+
+    for await (const item of this) {
+      items.push(item);
+      if (options.limit !== undefined && items.length >= options.limit) {
+        break;
+      }
+    }
+    return items;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Polling helper for long-running operations
+ */
+
+import { TimeoutError } from "./errors";
+import type { PollOptions } from "./types";
+
+const DEFAULT_INTERVAL_MS = 2000;
+const DEFAULT_BACKOFF = 1.5;
+const DEFAULT_MAX_INTERVAL_MS = 30000;
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Sleep that rejects with the signal's reason when aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Call `check` until `settle` returns a result
+ *
+ * The interval grows by `backoff` after each poll, up to `maxIntervalMs`.
+ * Rejects with TimeoutError after `timeoutMs`, or with the signal's reason when aborted.
+ */
+export async function poll<T, R>(
+  description: string,
+  check: () => Promise<T>,
+  settle: (value: T) => R | undefined,
+  options: PollOptions<T> = {}
+): Promise<R> {
+  const backoff = options.backoff ?? DEFAULT_BACKOFF;
+  const maxIntervalMs = options.maxIntervalMs ?? DEFAULT_MAX_INTERVAL_MS;
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  let intervalMs = options.intervalMs ?? DEFAULT_INTERVAL_MS;
+
+  for (;;) {
+    options.signal?.throwIfAborted();
+
+    const value = await check();
+    options.onProgress?.(value);
+
+    const result = settle(value);
+    if (result !== undefined) {
+      return result;
+    }
+
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      throw new TimeoutError(`Timed out waiting for ${description}`);
+    }
+
+    await sleep(Math.min(intervalMs, remainingMs), options.signal);
+    intervalMs = Math.min(intervalMs * backoff, maxIntervalMs);
+  }
+}
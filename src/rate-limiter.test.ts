@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { Chaindoc } from "./chaindoc";
+import { ChaindocError } from "./errors";
+import { RateLimiter } from "./rate-limiter";
+import { FakeChaindocServer } from "./testing";
+import type { FetchFunction } from "./types";
+
+/**
+ * Wrap a fetch to record the most requests it had in flight at once
+ */
+function trackConcurrency(fetch: FetchFunction) {
+  const stats = { inFlight: 0, peak: 0 };
+  const tracked: FetchFunction = async (input, init) => {
+    stats.inFlight++;
+    stats.peak = Math.max(stats.peak, stats.inFlight);
+    try {
+      return await fetch(input, init);
+    } finally {
+      stats.inFlight--;
+    }
+  };
+  return { stats, fetch: tracked };
+}
+
+describe("RateLimiter", () => {
+  it("queues requests beyond maxConcurrency until a slot is released", async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const release = await limiter.acquire();
+
+    let acquired = false;
+    const next = limiter.acquire().then((releaseNext) => {
+      acquired = true;
+      return releaseNext;
+    });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(acquired).toBe(false);
+
+    release();
+    (await next)();
+    expect(acquired).toBe(true);
+  });
+
+  it("dispatches queued requests by priority, then in order", async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const release = await limiter.acquire();
+    const order: string[] = [];
+
+    const waiting = (
+      [
+        ["low", "low"],
+        ["normal 1", "normal"],
+        ["high", "high"],
+        ["normal 2", "normal"],
+      ] as const
+    ).map(([name, priority]) =>
+      limiter.acquire(priority).then((releaseNext) => {
+        order.push(name);
+        releaseNext();
+      })
+    );
+    release();
+    await Promise.all(waiting);
+
+    expect(order).toEqual(["high", "normal 1", "normal 2", "low"]);
+  });
+
+  it("spaces requests to requestsPerSecond once the burst is spent", async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 20, burst: 1 });
+    const startedAt = Date.now();
+
+    for (let i = 0; i < 3; i++) {
+      (await limiter.acquire())();
+    }
+
+    // Two refills of 50ms each
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(90);
+  });
+
+  it("leaves the queue when the signal aborts", async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+    const release = await limiter.acquire();
+    const controller = new AbortController();
+
+    const aborted = limiter.acquire("high", controller.signal);
+    const next = limiter.acquire("low");
+    controller.abort(new Error("gave up"));
+    await expect(aborted).rejects.toThrow("gave up");
+
+    release();
+    await expect(next).resolves.toBeTypeOf("function");
+  });
+
+  it("rejects invalid config", () => {
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow(
+      ChaindocError
+    );
+    expect(() => new RateLimiter({ burst: 0 })).toThrow(ChaindocError);
+    expect(() => new RateLimiter({ maxConcurrency: 0 })).toThrow(ChaindocError);
+  });
+});
+
+describe("rateLimit", () => {
+  it("limits requests sent with the same key", async () => {
+    const fake = new FakeChaindocServer({ latencyMs: 20 });
+    const { stats, fetch } = trackConcurrency(fake.fetch);
+    const chaindoc = new Chaindoc({
+      secretKey: "sk_test_fake",
+      fetch,
+      rateLimit: { maxConcurrency: 1 },
+    });
+
+    await Promise.all([
+      chaindoc.healthCheck(),
+      chaindoc.withOptions({ headers: { "x-tenant": "a" } }).healthCheck(),
+      chaindoc.withOptions({ timeout: 5000 }).healthCheck(),
+    ]);
+
+    expect(stats.peak).toBe(1);
+    expect(fake.requests).toHaveLength(3);
+  });
+
+  it("keeps a separate limit per API key", async () => {
+    const fake = new FakeChaindocServer({ latencyMs: 20 });
+    const { stats, fetch } = trackConcurrency(fake.fetch);
+    const chaindoc = new Chaindoc({
+      secretKey: "sk_test_fake",
+      fetch,
+      rateLimit: { maxConcurrency: 1 },
+    });
+
+    await Promise.all([
+      chaindoc.healthCheck(),
+      chaindoc.withOptions({ secretKey: "sk_test_a" }).healthCheck(),
+      chaindoc.withOptions({ secretKey: "sk_test_b" }).healthCheck(),
+    ]);
+
+    expect(stats.peak).toBe(3);
+  });
+
+  it("sends high priority calls ahead of queued ones", async () => {
+    const fake = new FakeChaindocServer({ latencyMs: 10 });
+    const chaindoc = new Chaindoc({
+      secretKey: "sk_test_fake",
+      fetch: fake.fetch,
+      rateLimit: { maxConcurrency: 1 },
+    });
+
+    await Promise.all([
+      chaindoc.healthCheck({ headers: { "x-call": "first" } }),
+      chaindoc.healthCheck({ headers: { "x-call": "low" }, priority: "low" }),
+      chaindoc.healthCheck({ headers: { "x-call": "high" }, priority: "high" }),
+    ]);
+
+    expect(fake.requests.map((request) => request.headers["x-call"])).toEqual([
+      "first",
+      "high",
+      "low",
+    ]);
+  });
+});
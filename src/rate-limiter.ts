@@ -0,0 +1,214 @@
+/**
+ * Client-side rate limiting for HttpClient
+ * Token bucket for request rate, semaphore for concurrency, priority queue for ordering
+ */
+
+import { ChaindocError } from "./errors";
+import { isRateLimitExhausted, parseRateLimitReset } from "./headers";
+import type {
+  Middleware,
+  MiddlewareRequest,
+  RateLimitConfig,
+  RequestPriority,
+} from "./types";
+
+const PRIORITIES: RequestPriority[] = ["high", "normal", "low"];
+
+function assertRateLimitConfig(config: RateLimitConfig): void {
+  if (config.requestsPerSecond !== undefined && config.requestsPerSecond <= 0) {
+    throw new ChaindocError("rateLimit.requestsPerSecond must be positive");
+  }
+  if (config.burst !== undefined && config.burst < 1) {
+    throw new ChaindocError("rateLimit.burst must be at least 1");
+  }
+  if (config.maxConcurrency !== undefined && config.maxConcurrency < 1) {
+    throw new ChaindocError("rateLimit.maxConcurrency must be at least 1");
+  }
+}
+
+interface Waiter {
+  resolve: (release: () => void) => void;
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private capacity: number;
+  private refillPerMs: number;
+  private maxConcurrency: number;
+  private inFlight = 0;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private queues: Record<RequestPriority, Waiter[]> = {
+    high: [],
+    normal: [],
+    low: [],
+  };
+
+  constructor(config: RateLimitConfig) {
+    assertRateLimitConfig(config);
+
+    const requestsPerSecond = config.requestsPerSecond ?? Infinity;
+    this.capacity = config.burst ?? Math.max(1, requestsPerSecond);
+    this.tokens = this.capacity;
+    this.refillPerMs = requestsPerSecond / 1000;
+    this.maxConcurrency = config.maxConcurrency ?? Infinity;
+  }
+
+  /**
+   * Wait for a slot; resolves with a function that frees it
+   * Leaves the queue and rejects with the signal's reason when aborted
+   */
+  acquire(
+    priority: RequestPriority = "normal",
+    signal?: AbortSignal
+  ): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const queue = this.queues[priority];
+      const onAbort = () => {
+        const index = queue.indexOf(waiter);
+        if (index !== -1) {
+          queue.splice(index, 1);
+        }
+        reject(signal?.reason);
+      };
+      const waiter: Waiter = {
+        resolve: (release) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(release);
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Stop dispatching until `ms` from now, e.g. after the server reports exhaustion
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    if (this.refillPerMs === Infinity) {
+      this.tokens = this.capacity;
+    } else {
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + (now - this.lastRefill) * this.refillPerMs
+      );
+    }
+    this.lastRefill = now;
+  }
+
+  private nextWaiter(): Waiter | undefined {
+    for (const priority of PRIORITIES) {
+      const waiter = this.queues[priority].shift();
+      if (waiter) {
+        return waiter;
+      }
+    }
+    return undefined;
+  }
+
+  private hasWaiters(): boolean {
+    return PRIORITIES.some((priority) => this.queues[priority].length > 0);
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.refill();
+
+    while (this.hasWaiters() && this.inFlight < this.maxConcurrency) {
+      const pausedFor = this.pausedUntil - Date.now();
+      if (pausedFor > 0) {
+        this.schedule(pausedFor);
+        return;
+      }
+      if (this.tokens < 1) {
+        this.schedule(Math.ceil((1 - this.tokens) / this.refillPerMs));
+        return;
+      }
+
+      const waiter = this.nextWaiter();
+      if (!waiter) {
+        return;
+      }
+      this.tokens -= 1;
+      this.inFlight++;
+
+      let released = false;
+      waiter.resolve(() => {
+        if (released) {
+          return;
+        }
+        released = true;
+        this.inFlight--;
+        this.drain();
+      });
+    }
+  }
+
+  private schedule(ms: number): void {
+    this.timer = setTimeout(() => this.drain(), ms);
+  }
+}
+
+/**
+ * Take a rate-limit slot for every attempt, from the limiter of the request's key
+ * With `adaptive`, pauses the limiter when the API reports an exhausted budget
+ *
+ * @param limiters Limiters by key fingerprint, created on first use
+ * @param keyOf Fingerprint of the key the request is sent with
+ */
+export function createRateLimitMiddleware(
+  config: RateLimitConfig,
+  limiters: Map<string, RateLimiter>,
+  keyOf: (request: MiddlewareRequest) => string
+): Middleware {
+  // Checked up front, as limiters are only created once a key is in use
+  assertRateLimitConfig(config);
+  const adaptive = config.adaptive ?? true;
+
+  return async (request, next) => {
+    const key = keyOf(request);
+    let limiter = limiters.get(key);
+    if (!limiter) {
+      limiter = new RateLimiter(config);
+      limiters.set(key, limiter);
+    }
+    const release = await limiter.acquire(request.priority, request.signal);
+    try {
+      const response = await next(request);
+      if (adaptive && isRateLimitExhausted(response.headers)) {
+        limiter.pause(parseRateLimitReset(response.headers) ?? 0);
+      }
+      return response;
+    } catch (error) {
+      if (
+        adaptive &&
+        error instanceof ChaindocError &&
+        error.statusCode === 429 &&
+        error.retryAfterMs
+      ) {
+        limiter.pause(error.retryAfterMs);
+      }
+      throw error;
+    } finally {
+      release();
+    }
+  };
+}
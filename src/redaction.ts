@@ -0,0 +1,62 @@
+/**
+ * Redaction of secrets and KYC personal data
+ * Shared by cassettes and logging
+ */
+
+export const REDACTED = "[REDACTED]";
+
+export const REDACTED_HEADERS = ["authorization"];
+
+/**
+ * Share tokens and the personal data returned with shared KYC
+ */
+export const REDACTED_KEYS = [
+  "shareToken",
+  "firstName",
+  "lastName",
+  "middleName",
+  "dob",
+  "country",
+  "nationality",
+  "applicantId",
+];
+
+const SECRET_KEY_PATTERN = /\bsk_[A-Za-z0-9_-]+/g;
+
+/**
+ * Replace the values of `keys` with "[REDACTED]", at any depth
+ */
+export function redact(value: unknown, keys: ReadonlySet<string>): unknown {
+  if (Array.isArray(value)) {
+    return value.map((entry) => redact(entry, keys));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [
+        key,
+        keys.has(key) && entry !== null && entry !== undefined
+          ? REDACTED
+          : redact(entry, keys),
+      ])
+    );
+  }
+  return value;
+}
+
+export function redactHeaders(
+  headers: Record<string, string>
+): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name,
+      REDACTED_HEADERS.includes(name.toLowerCase()) ? REDACTED : value,
+    ])
+  );
+}
+
+/**
+ * Mask secret keys embedded in free text, e.g. an error message
+ */
+export function redactSecrets(text: string): string {
+  return text.replace(SECRET_KEY_PATTERN, `sk_${REDACTED}`);
+}
@@ -0,0 +1,242 @@
+/**
+ * Pre-flight checks for request parameters
+ *
+ * Each validator collects every issue and throws a single
+ * RequestValidationError, so nothing is sent when parameters are invalid.
+ */
+
+import { RequestValidationError } from "./errors";
+import type {
+  AccessEmail,
+  AccessRole,
+  AccessType,
+  CreateDocumentParams,
+  CreateEmbeddedSessionParams,
+  CreateSignatureRequestParams,
+  FieldError,
+  ShareKycParams,
+  StartSigningWorkflowParams,
+  UpdateDocumentRightsParams,
+} from "./types";
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const HASHTAG_PATTERN = /^#[^\s#]+$/;
+
+interface AccessParams {
+  accessType?: AccessType;
+  accessEmails?: AccessEmail[];
+  accessRoles?: AccessRole[];
+}
+
+function isBlank(value: unknown): boolean {
+  return typeof value !== "string" || value.trim() === "";
+}
+
+function checkRequired(issues: FieldError[], field: string, value: unknown) {
+  if (isBlank(value)) {
+    issues.push({ field, message: `${field} is required` });
+  }
+}
+
+function checkEmail(issues: FieldError[], field: string, value: unknown) {
+  if (typeof value !== "string" || !EMAIL_PATTERN.test(value.trim())) {
+    issues.push({ field, message: `${field} must be a valid email address` });
+  }
+}
+
+function checkAccess(issues: FieldError[], params: AccessParams) {
+  params.accessEmails?.forEach((entry, index) =>
+    checkEmail(issues, `accessEmails[${index}].email`, entry.email)
+  );
+  if (
+    params.accessType === "restricted" &&
+    !params.accessEmails?.length &&
+    !params.accessRoles?.length
+  ) {
+    issues.push({
+      field: "accessType",
+      message: "restricted access requires accessEmails or accessRoles",
+    });
+  }
+}
+
+function checkDeadline(issues: FieldError[], deadline: unknown) {
+  if (!(deadline instanceof Date) || Number.isNaN(deadline.getTime())) {
+    issues.push({
+      field: "deadline",
+      message: "deadline must be a valid Date",
+    });
+  } else if (deadline.getTime() <= Date.now()) {
+    issues.push({
+      field: "deadline",
+      message: "deadline must be in the future",
+    });
+  }
+}
+
+function assertValid(subject: string, issues: FieldError[]): void {
+  if (issues.length === 0) {
+    return;
+  }
+  throw new RequestValidationError(
+    `Invalid ${subject}: ${issues.map((issue) => issue.message).join("; ")}`,
+    issues
+  );
+}
+
+export function validateCreateSignatureRequestParams(
+  params: CreateSignatureRequestParams
+): void {
+  const issues: FieldError[] = [];
+  checkRequired(issues, "versionId", params.versionId);
+
+  if (!Array.isArray(params.recipients) || params.recipients.length === 0) {
+    issues.push({
+      field: "recipients",
+      message: "recipients must contain at least one recipient",
+    });
+  } else {
+    const seen = new Map<string, number>();
+    const requiresShareToken = !!params.isKycRequired && !!params.embeddedFlow;
+
+    params.recipients.forEach((recipient, index) => {
+      const field = `recipients[${index}]`;
+      checkEmail(issues, `${field}.email`, recipient.email);
+
+      const email = String(recipient.email).trim().toLowerCase();
+      const first = seen.get(email);
+      if (first === undefined) {
+        seen.set(email, index);
+      } else if (typeof recipient.email === "string") {
+        issues.push({
+          field: `${field}.email`,
+          message: `${field}.email duplicates recipients[${first}].email`,
+        });
+      }
+
+      if (requiresShareToken && isBlank(recipient.shareToken)) {
+        issues.push({
+          field: `${field}.shareToken`,
+          message: `${field}.shareToken is required when isKycRequired and embeddedFlow are set`,
+        });
+      }
+    });
+  }
+
+  checkDeadline(issues, params.deadline);
+  assertValid("signature request", issues);
+}
+
+export function validateCreateDocumentParams(
+  params: CreateDocumentParams
+): void {
+  const issues: FieldError[] = [];
+  checkRequired(issues, "name", params.name);
+
+  if (!params.media) {
+    issues.push({ field: "media", message: "media is required" });
+  }
+
+  if (!Array.isArray(params.hashtags)) {
+    issues.push({ field: "hashtags", message: "hashtags must be an array" });
+  } else {
+    params.hashtags.forEach((hashtag, index) => {
+      if (typeof hashtag !== "string" || !HASHTAG_PATTERN.test(hashtag)) {
+        issues.push({
+          field: `hashtags[${index}]`,
+          message: `hashtags[${index}] must start with "#" and contain no spaces`,
+        });
+      }
+    });
+  }
+
+  checkAccess(issues, params);
+  assertValid("document", issues);
+}
+
+export function validateUpdateDocumentRightsParams(
+  params: UpdateDocumentRightsParams
+): void {
+  const issues: FieldError[] = [];
+  checkRequired(issues, "accessType", params.accessType);
+  checkAccess(issues, params);
+  assertValid("document rights", issues);
+}
+
+export function validateCreateEmbeddedSessionParams(
+  params: CreateEmbeddedSessionParams
+): void {
+  const issues: FieldError[] = [];
+  checkEmail(issues, "email", params.email);
+  checkRequired(issues, "metadata.documentId", params.metadata?.documentId);
+
+  const returnUrl = params.metadata?.returnUrl;
+  if (returnUrl !== undefined) {
+    let protocol: string | undefined;
+    try {
+      protocol = new URL(returnUrl).protocol;
+    } catch {
+      protocol = undefined;
+    }
+    if (protocol !== "https:" && protocol !== "http:") {
+      issues.push({
+        field: "metadata.returnUrl",
+        message: "metadata.returnUrl must be an absolute http(s) URL",
+      });
+    }
+  }
+
+  assertValid("embedded session", issues);
+}
+
+export function validateShareKycParams(params: ShareKycParams): void {
+  const issues: FieldError[] = [];
+  checkEmail(issues, "email", params.email);
+  if (params.shareToken !== undefined) {
+    checkRequired(issues, "shareToken", params.shareToken);
+  }
+  assertValid("KYC share", issues);
+}
+
+export function validateStartSigningWorkflowParams(
+  params: StartSigningWorkflowParams
+): void {
+  const issues: FieldError[] = [];
+  checkRequired(issues, "versionId", params.versionId);
+  if (params.embeddedFlow) {
+    checkRequired(issues, "documentId", params.documentId);
+  }
+
+  if (!Array.isArray(params.groups) || params.groups.length === 0) {
+    issues.push({
+      field: "groups",
+      message: "groups must contain at least one group",
+    });
+  } else {
+    const seen = new Map<string, string>();
+    params.groups.forEach((group, groupIndex) => {
+      if (!Array.isArray(group) || group.length === 0) {
+        issues.push({
+          field: `groups[${groupIndex}]`,
+          message: `groups[${groupIndex}] must contain at least one recipient`,
+        });
+        return;
+      }
+      group.forEach((recipient, index) => {
+        const field = `groups[${groupIndex}][${index}].email`;
+        checkEmail(issues, field, recipient.email);
+
+        const email = String(recipient.email).trim().toLowerCase();
+        const first = seen.get(email);
+        if (first === undefined) {
+          seen.set(email, field);
+        } else if (typeof recipient.email === "string") {
+          issues.push({ field, message: `${field} duplicates ${first}` });
+        }
+      });
+    });
+  }
+
+  checkDeadline(issues, params.deadline);
+  assertValid("signing workflow", issues);
+}
@@ -0,0 +1,322 @@
+/**
+ * Runtime schemas for API responses
+ * Mirrors src/types/index.ts; `ObjectShape` makes the compiler flag missing fields
+ */
+
+import {
+  array,
+  boolean,
+  literal,
+  number,
+  object,
+  optional,
+  record,
+  string,
+} from "./schema";
+import type {
+  ApiKeyInfo,
+  Document,
+  DocumentResponse,
+  DocumentTag,
+  DocumentVersion,
+  EmbeddedSessionResponse,
+  GetMyRequestsResponse,
+  GetSignaturesResponse,
+  HealthCheckResponse,
+  KycData,
+  Media,
+  MediaUploadResponse,
+  MetaTag,
+  ShareKycResponse,
+  SignDocumentResponse,
+  SignatureRequest,
+  SignatureRequestResponse,
+  SignatureRequestStatus,
+  Signer,
+  SignerUser,
+  VerificationStatus,
+  VerifyDocumentResponse,
+} from "./types";
+
+// ============================================================================
+// Shared
+// ============================================================================
+
+const metaTag = object<MetaTag>({ key: string(), value: string() });
+
+const documentStatus = literal(
+  "draft",
+  "published",
+  "archived",
+  "pending_signature",
+  "signed"
+);
+
+const signRequestStatus = literal(
+  "pending",
+  "completed",
+  "expired",
+  "cancelled"
+);
+
+const verificationTxStatus = literal(
+  "initialized",
+  "pending",
+  "verified",
+  "failed"
+);
+
+// ============================================================================
+// Media
+// ============================================================================
+
+const media = object<Media>({
+  type: optional(
+    literal("document", "image", "video", "text", "call_to_action")
+  ),
+  name: string(),
+  key: string(),
+  url: string(),
+  hash: optional(string()),
+  size: optional(number()),
+  thumbnail: optional(string()),
+  bluredThumbnail: optional(string()),
+  compressed: optional(string()),
+});
+
+export const mediaUploadResponse = object<MediaUploadResponse>({
+  success: boolean(),
+  media: array(media),
+  message: string(),
+});
+
+// ============================================================================
+// Documents
+// ============================================================================
+
+const documentTag = object<DocumentTag>({ id: number(), tag: string() });
+
+const documentVersion = object<DocumentVersion>({
+  id: number(),
+  uuid: string(),
+  name: optional(string()),
+  documentVersion: string(),
+  description: optional(string()),
+  media: optional(media),
+  meta: optional(array(metaTag)),
+  isForSigning: boolean(),
+  status: documentStatus,
+  versionHash: optional(string()),
+  documentId: number(),
+  tags: array(documentTag),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+const document = object<Document>({
+  id: number(),
+  uuid: string(),
+  txtId: string(),
+  userId: number(),
+  coreTeamId: number(),
+  currentVersionId: optional(number()),
+  accessType: literal("private", "public", "restricted", "team"),
+  versions: array(documentVersion),
+  currentVersion: optional(documentVersion),
+  createdAt: string(),
+  updatedAt: string(),
+});
+
+export const documentResponse = object<DocumentResponse>({
+  success: boolean(),
+  documentId: string(),
+  document,
+  message: string(),
+});
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+const verificationStatus = object<VerificationStatus>({
+  txHash: string(),
+  chainId: number(),
+  status: string(),
+  verifiedAt: string(),
+});
+
+export const verifyDocumentResponse = object<VerifyDocumentResponse>({
+  success: boolean(),
+  verified: boolean(),
+  document: optional(
+    object<NonNullable<VerifyDocumentResponse["document"]>>({
+      id: string(),
+      versionId: string(),
+      name: string(),
+      versionHash: string(),
+      status: string(),
+    })
+  ),
+  verification: optional(verificationStatus),
+  certificate: optional(
+    object<NonNullable<VerifyDocumentResponse["certificate"]>>({
+      valid: boolean(),
+      hash: string(),
+    })
+  ),
+});
+
+// ============================================================================
+// Signatures
+// ============================================================================
+
+const signerUser = object<SignerUser>({
+  id: optional(number()),
+  username: optional(string()),
+  email: optional(string()),
+  imageMedia: optional(media),
+  backgroundColor: optional(string()),
+  textColor: optional(string()),
+  reputation: optional(number()),
+});
+
+const signer = object<Signer>({
+  id: number(),
+  requestId: number(),
+  signerId: optional(number()),
+  signerEmail: string(),
+  meta: optional(array(metaTag)),
+  messageText: optional(string()),
+  signatureHash: optional(string()),
+  signature: optional(string()),
+  hash: optional(string()),
+  signedAt: optional(string()),
+  remindedAt: optional(string()),
+  signer: optional(signerUser),
+  createdAt: optional(string()),
+  updatedAt: optional(string()),
+});
+
+const signatureRequest = object<SignatureRequest>({
+  id: number(),
+  uuid: string(),
+  userId: number(),
+  versionId: number(),
+  status: signRequestStatus,
+  meta: optional(array(metaTag)),
+  messageText: optional(string()),
+  dueDate: string(),
+  isKycRequired: boolean(),
+  txHash: optional(string()),
+  embeddedFlow: optional(boolean()),
+  txStatus: verificationTxStatus,
+  certificate: optional(media),
+  certificateHash: optional(string()),
+  signers: array(signer),
+  createdAt: optional(string()),
+  updatedAt: optional(string()),
+});
+
+export const signatureRequestResponse = object<SignatureRequestResponse>({
+  signatureRequest,
+  recipients: array(signer),
+});
+
+export const signatureRequestStatus = object<SignatureRequestStatus>({
+  success: boolean(),
+  requestId: number(),
+  status: signRequestStatus,
+  versionId: number(),
+  totalSigners: number(),
+  signedCount: number(),
+  pendingCount: number(),
+  isCompleted: boolean(),
+  dueDate: string(),
+  signers: array(signer),
+});
+
+export const getMyRequestsResponse = object<GetMyRequestsResponse>({
+  items: array(signatureRequest),
+  total: number(),
+  pageNumber: number(),
+  pageSize: number(),
+});
+
+export const getSignaturesResponse = object<GetSignaturesResponse>({
+  items: array(signatureRequest),
+  total: number(),
+  totalPending: number(),
+  totalCompleted: number(),
+  totalExpired: number(),
+  pageNumber: number(),
+  pageSize: number(),
+});
+
+export const signDocumentResponse = object<SignDocumentResponse>({
+  success: boolean(),
+  requestId: string(),
+  signedAt: string(),
+  message: string(),
+});
+
+// ============================================================================
+// Embedded Sessions
+// ============================================================================
+
+export const embeddedSessionResponse = object<EmbeddedSessionResponse>({
+  success: boolean(),
+  sessionId: string(),
+  email: string(),
+  status: string(),
+  expiresAt: string(),
+  expiresInMinutes: number(),
+  metadata: record(),
+  message: string(),
+  createdAt: string(),
+});
+
+// ============================================================================
+// KYC
+// ============================================================================
+
+const kycData = object<KycData>({
+  verified: boolean(),
+  firstName: optional(string()),
+  lastName: optional(string()),
+  middleName: optional(string()),
+  dob: optional(string()),
+  country: optional(string()),
+  nationality: optional(string()),
+  reviewStatus: optional(string()),
+  applicantId: optional(string()),
+});
+
+export const shareKycResponse = object<ShareKycResponse>({
+  success: boolean(),
+  message: string(),
+  shareToken: optional(string()),
+  email: string(),
+  sharedAt: string(),
+  kycData: optional(kycData),
+  error: optional(string()),
+});
+
+// ============================================================================
+// API Key
+// ============================================================================
+
+export const apiKeyInfo = object<ApiKeyInfo>({
+  keyId: number(),
+  keyName: string(),
+  userId: number(),
+  lastUsedAt: string(),
+  isActive: boolean(),
+  accessLevel: string(),
+});
+
+export const healthCheckResponse = object<HealthCheckResponse>({
+  status: string(),
+  timestamp: string(),
+  apiKeyValid: boolean(),
+  userId: number(),
+});
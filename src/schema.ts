@@ -0,0 +1,156 @@
+/**
+ * Minimal runtime schema layer used to validate API responses
+ *
+ * Object schemas ignore unknown properties, so additive API changes never fail
+ * validation. Optional fields also accept `null`, which the API uses for
+ * absent values.
+ */
+
+import type { ResponseValidationIssue } from "./types";
+
+export interface Schema<T> {
+  /**
+   * Expected type, as shown in validation issues
+   */
+  readonly expected: string;
+  check(value: unknown, path: string, issues: ResponseValidationIssue[]): void;
+  /**
+   * Carries the validated type; never set at runtime
+   */
+  readonly type?: T;
+}
+
+export type ObjectShape<T> = { [K in keyof T]-?: Schema<T[K]> };
+
+const MAX_RECEIVED_LENGTH = 40;
+
+/**
+ * Describe a value for an issue message, e.g. `string "42"` or `null`
+ */
+function describe(value: unknown): string {
+  if (value === null || value === undefined) {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "string") {
+    const shown =
+      value.length > MAX_RECEIVED_LENGTH
+        ? `${value.slice(0, MAX_RECEIVED_LENGTH)}...`
+        : value;
+    return `string ${JSON.stringify(shown)}`;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return `${typeof value} ${value}`;
+  }
+  return typeof value;
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") {
+    return `${path}[${key}]`;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+function primitive<T>(
+  expected: string,
+  matches: (value: unknown) => boolean
+): Schema<T> {
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!matches(value)) {
+        issues.push({ path, expected, received: describe(value) });
+      }
+    },
+  };
+}
+
+export function string(): Schema<string> {
+  return primitive("string", (value) => typeof value === "string");
+}
+
+export function number(): Schema<number> {
+  return primitive(
+    "number",
+    (value) => typeof value === "number" && !Number.isNaN(value)
+  );
+}
+
+export function boolean(): Schema<boolean> {
+  return primitive("boolean", (value) => typeof value === "boolean");
+}
+
+export function unknown(): Schema<unknown> {
+  return primitive("unknown", () => true);
+}
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return primitive(
+    values.map((value) => JSON.stringify(value)).join(" | "),
+    (value) => values.includes(value as T)
+  );
+}
+
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: `${schema.expected} | undefined`,
+    check(value, path, issues) {
+      if (value !== undefined && value !== null) {
+        schema.check(value, path, issues);
+      }
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: "array", received: describe(value) });
+        return;
+      }
+      value.forEach((entry, index) =>
+        item.check(entry, childPath(path, index), issues)
+      );
+    },
+  };
+}
+
+export function record(): Schema<Record<string, unknown>> {
+  return primitive(
+    "object",
+    (value) => !!value && typeof value === "object" && !Array.isArray(value)
+  );
+}
+
+export function object<T>(shape: ObjectShape<T>): Schema<T> {
+  return {
+    expected: "object",
+    check(value, path, issues) {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        issues.push({ path, expected: "object", received: describe(value) });
+        return;
+      }
+      const fields = value as Record<string, unknown>;
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        shape[key].check(fields[key], childPath(path, key), issues);
+      }
+    },
+  };
+}
+
+/**
+ * Collect every mismatch between `value` and `schema`
+ */
+export function validate<T>(
+  schema: Schema<T>,
+  value: unknown
+): ResponseValidationIssue[] {
+  const issues: ResponseValidationIssue[] = [];
+  schema.check(value, "", issues);
+  return issues;
+}
@@ -0,0 +1,89 @@
+/**
+ * Request lifecycle events for tracing and metrics
+ */
+
+import { NetworkError, RateLimitError, TimeoutError } from "./errors";
+import type { ChaindocError } from "./errors";
+import type { RetryReason, TelemetryEvent, TelemetryListener } from "./types";
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether a path segment is an identifier rather than part of the route
+ * Numeric IDs, UUIDs and long tokens containing digits (e.g. hashes) qualify
+ */
+function isIdentifier(segment: string): boolean {
+  return (
+    /^\d+$/.test(segment) ||
+    UUID_PATTERN.test(segment) ||
+    (segment.length >= 16 && /\d/.test(segment))
+  );
+}
+
+/**
+ * Replace identifiers in an API path with `:id` and drop the query string
+ *
+ * @example
+ * ```typescript
+ * routeTemplate('/api/v1/signatures/requests/42/status'); // '/api/v1/signatures/requests/:id/status'
+ * ```
+ */
+export function routeTemplate(endpoint: string): string {
+  const [path = ""] = endpoint.split("?");
+  return path
+    .split("/")
+    .map((segment) => (isIdentifier(segment) ? ":id" : segment))
+    .join("/");
+}
+
+export function retryReason(error: ChaindocError): RetryReason {
+  if (error instanceof RateLimitError || error.statusCode === 429) {
+    return "rate_limited";
+  }
+  if (error instanceof TimeoutError) {
+    return "timeout";
+  }
+  if (error instanceof NetworkError) {
+    return "network";
+  }
+  return "server_error";
+}
+
+/**
+ * Fan events out to the configured listeners
+ * A throwing listener never affects the request or other listeners
+ */
+export function createEmitter(
+  listeners: TelemetryListener | TelemetryListener[] | undefined
+): (event: TelemetryEvent) => void {
+  const all = listeners ? [listeners].flat() : [];
+  return (event) => {
+    for (const listener of all) {
+      try {
+        listener(event);
+      } catch {
+        // Telemetry must not break API calls
+      }
+    }
+  };
+}
+
+/**
+ * Pass a request body stream through, reporting the running byte count
+ */
+export function countBytes(
+  stream: ReadableStream<Uint8Array>,
+  onProgress: (bytesSent: number) => void
+): ReadableStream<Uint8Array> {
+  let bytesSent = 0;
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        controller.enqueue(chunk);
+        bytesSent += chunk.byteLength;
+        onProgress(bytesSent);
+      },
+    })
+  );
+}
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { FakeChaindocServer } from "./fake-server";
+import type { FakeServerHandle } from "./fake-server";
+
+const HEADERS = {
+  authorization: "Bearer sk_test_fake",
+  "content-type": "application/json",
+};
+
+describe("FakeChaindocServer", () => {
+  it("rejects a malformed JSON body with 400", async () => {
+    const fake = new FakeChaindocServer();
+
+    const response = await fake.fetch("http://fake/api/v1/documents", {
+      method: "POST",
+      headers: HEADERS,
+      body: "{not json",
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      statusCode: 400,
+      message: "Request body is not valid JSON",
+    });
+  });
+
+  it("rejects other API keys when one is configured", async () => {
+    const fake = new FakeChaindocServer({ secretKey: "sk_test_only" });
+
+    const response = await fake.fetch("http://fake/api/v1/me", {
+      headers: HEADERS,
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("fails matching requests with injected faults", async () => {
+    const fake = new FakeChaindocServer();
+    fake.injectFault({
+      status: 503,
+      path: /^\/api\/v1\/health$/,
+      retryAfterSeconds: 2,
+    });
+
+    const failed = await fake.fetch("http://fake/api/v1/health", {
+      headers: HEADERS,
+    });
+    const recovered = await fake.fetch("http://fake/api/v1/health", {
+      headers: HEADERS,
+    });
+
+    expect(failed.status).toBe(503);
+    expect(failed.headers.get("retry-after")).toBe("2");
+    expect(recovered.status).toBe(200);
+  });
+
+  it("fails the fetch when the request body fails while streaming", async () => {
+    const fake = new FakeChaindocServer();
+    const cause = new Error("disk read failed");
+    const body = new ReadableStream<Uint8Array>({
+      pull: (controller) => controller.error(cause),
+    });
+
+    const request = fake.fetch("http://fake/api/v1/media/upload", {
+      method: "POST",
+      headers: HEADERS,
+      body,
+      duplex: "half",
+    } as RequestInit);
+
+    await expect(request).rejects.toMatchObject({
+      name: "TypeError",
+      cause,
+    });
+  });
+
+  describe("listen", () => {
+    let server: FakeServerHandle | undefined;
+
+    afterEach(async () => {
+      await server?.close();
+      server = undefined;
+    });
+
+    it("serves the API over HTTP", async () => {
+      server = await new FakeChaindocServer().listen();
+
+      const response = await fetch(`${server.url}/api/v1/health`, {
+        headers: HEADERS,
+      });
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({ status: "ok" });
+    });
+
+    it("answers 500 when handling a request fails unexpectedly", async () => {
+      server = await new FakeChaindocServer().listen();
+
+      const response = await fetch(`${server.url}/api/v1/documents`, {
+        method: "POST",
+        headers: HEADERS,
+        body: "null",
+      });
+
+      expect(response.status).toBe(500);
+      expect(await response.json()).toMatchObject({ statusCode: 500 });
+    });
+  });
+});
@@ -0,0 +1,1006 @@
+/**
+ * Stateful in-memory fake of the Chaindoc API
+ *
+ * Implements every endpoint the SDK calls. Plug it in through `fetch`
+ * (in-process) or `listen()` (real HTTP server on localhost), then drive
+ * time, signers, blockchain status and faults from the test.
+ */
+
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { Readable } from "node:stream";
+import { sleep } from "../polling";
+import type {
+  ApiKeyInfo,
+  CreateDocumentParams,
+  CreateEmbeddedSessionParams,
+  CreateSignatureRequestParams,
+  Document,
+  DocumentVersion,
+  EmbeddedSessionResponse,
+  HttpMethod,
+  KycData,
+  Media,
+  MediaType,
+  ShareKycParams,
+  SignDocumentParams,
+  SignatureRequest,
+  SignatureRequestStatus,
+  Signer,
+  UpdateDocumentParams,
+  UpdateDocumentRightsParams,
+  VerificationTxStatus,
+  VerifyDocumentParams,
+  VerifyDocumentResponse,
+} from "../types";
+
+const FAKE_USER_ID = 1;
+const FAKE_TEAM_ID = 1;
+const FAKE_CHAIN_ID = 137;
+const FAKE_MEDIA_URL = "https://media.chaindoc.test";
+const SESSION_TTL_MINUTES = 10;
+const DEFAULT_OWNER_EMAIL = "owner@example.com";
+const DEFAULT_PAGE_SIZE = 10;
+
+export interface FakeChaindocServerOptions {
+  /**
+   * Only this API key is accepted; any `sk_` key when omitted
+   */
+  secretKey?: string;
+
+  /**
+   * Email of the API key owner
+   * `signatures.sign` and `signatures.getSignatures` act as this signer
+   * @default 'owner@example.com'
+   */
+  ownerEmail?: string;
+
+  /**
+   * Delay before every response in milliseconds
+   */
+  latencyMs?: number;
+}
+
+/**
+ * Error response returned instead of handling matching requests
+ */
+export interface FakeFault {
+  /**
+   * HTTP status to return, e.g. 429 or 503
+   */
+  status: number;
+  method?: HttpMethod;
+  /**
+   * Endpoint path without query string; a string must match exactly
+   */
+  path?: string | RegExp;
+  /**
+   * Number of matching requests to fail
+   * @default 1
+   */
+  times?: number;
+  /**
+   * Sent as the `Retry-After` header
+   */
+  retryAfterSeconds?: number;
+  message?: string;
+}
+
+export interface FakeRequestRecord {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface FakeServerHandle {
+  /**
+   * Base URL of the server, e.g. `http://127.0.0.1:54321`
+   */
+  url: string;
+  close(): Promise<void>;
+}
+
+interface RouteContext {
+  params: string[];
+  query: URLSearchParams;
+  body: unknown;
+  request: Request;
+}
+
+type RouteHandler = (context: RouteContext) => unknown | Promise<unknown>;
+
+interface Route {
+  method: HttpMethod;
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+interface VersionTransaction {
+  txStatus: VerificationTxStatus;
+  txHash?: string;
+  updatedAt: string;
+}
+
+/**
+ * Error response raised from a route handler
+ */
+class FakeHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+function json(
+  status: number,
+  body: unknown,
+  headers?: Record<string, string>
+): Response {
+  const response = new Response(JSON.stringify(body), { status, headers });
+  response.headers.set("content-type", "application/json");
+  return response;
+}
+
+function randomHex(bytes = 32): string {
+  return randomBytes(bytes).toString("hex");
+}
+
+function getMediaType(contentType: string): MediaType {
+  if (contentType.startsWith("image/")) {
+    return "image";
+  }
+  if (contentType.startsWith("video/")) {
+    return "video";
+  }
+  if (contentType.startsWith("text/")) {
+    return "text";
+  }
+  return "document";
+}
+
+function paginate<T>(items: T[], query: URLSearchParams) {
+  const pageNumber = Number(query.get("pageNumber")) || 1;
+  const pageSize = Number(query.get("pageSize")) || DEFAULT_PAGE_SIZE;
+  const start = (pageNumber - 1) * pageSize;
+  return {
+    items: items.slice(start, start + pageSize),
+    total: items.length,
+    pageNumber,
+    pageSize,
+  };
+}
+
+/**
+ * In-memory Chaindoc backend for tests
+ *
+ * @example
+ * ```typescript
+ * import { FakeChaindocServer } from '@chaindoc_io/server-sdk/testing';
+ *
+ * const fake = new FakeChaindocServer();
+ * const chaindoc = new Chaindoc({ secretKey: 'sk_test_fake', fetch: fake.fetch });
+ * const { signatureRequest } = await chaindoc.signatures.createRequest(params);
+ *
+ * fake.signAs(signatureRequest.uuid, 'signer@example.com');
+ * fake.advanceTime(7 * 24 * 60 * 60 * 1000);
+ * ```
+ */
+export class FakeChaindocServer {
+  /**
+   * Every request received, in order
+   */
+  readonly requests: FakeRequestRecord[] = [];
+
+  private options: FakeChaindocServerOptions;
+  private routes: Route[];
+  private offsetMs = 0;
+  private nextId = 1;
+  private faults: Array<FakeFault & { remaining: number }> = [];
+  private media = new Map<string, Media>();
+  private documents = new Map<string, Document>();
+  private transactions = new Map<number, VersionTransaction>();
+  private signatureRequests = new Map<number, SignatureRequest>();
+  private sessions = new Map<string, EmbeddedSessionResponse>();
+  private kycProfiles = new Map<string, KycData>();
+
+  constructor(options: FakeChaindocServerOptions = {}) {
+    this.options = options;
+    this.routes = [
+      this.route("POST", "/api/v1/media/upload", (ctx) => this.upload(ctx)),
+      this.route("POST", "/api/v1/documents/verify", ({ body }) =>
+        this.verify(body as VerifyDocumentParams)
+      ),
+      this.route(
+        "GET",
+        "/api/v1/documents/versions/:id/verification",
+        ({ params }) => this.getVerification(params[0]!)
+      ),
+      this.route("POST", "/api/v1/documents", ({ body }) =>
+        this.createDocument(body as CreateDocumentParams)
+      ),
+      this.route("PUT", "/api/v1/documents/:id/rights", ({ params, body }) =>
+        this.updateRights(params[0]!, body as UpdateDocumentRightsParams)
+      ),
+      this.route("PUT", "/api/v1/documents/:id", ({ params, body }) =>
+        this.updateDocument(params[0]!, body as UpdateDocumentParams)
+      ),
+      this.route("POST", "/api/v1/signatures/requests", ({ body }) =>
+        this.createRequest(body as CreateSignatureRequestParams)
+      ),
+      this.route(
+        "GET",
+        "/api/v1/signatures/requests/:id/status",
+        ({ params }) => this.getStatus(params[0]!)
+      ),
+      this.route("GET", "/api/v1/signatures/requests", ({ query }) =>
+        paginate(
+          [...this.signatureRequests.values()].filter(
+            (request) => request.userId === FAKE_USER_ID
+          ),
+          query
+        )
+      ),
+      this.route("POST", "/api/v1/signatures/sign", ({ body }) =>
+        this.sign(body as SignDocumentParams)
+      ),
+      this.route("GET", "/api/v1/signatures", ({ query }) =>
+        this.getSignatures(query)
+      ),
+      this.route("POST", "/api/v1/embedded/sessions", ({ body }) =>
+        this.createSession(body as CreateEmbeddedSessionParams)
+      ),
+      this.route("POST", "/api/v1/kyc/share", ({ body }) =>
+        this.shareKyc(body as ShareKycParams)
+      ),
+      this.route("GET", "/api/v1/me", () => this.getApiKeyInfo()),
+      this.route("GET", "/api/v1/health", () => ({
+        status: "ok",
+        timestamp: this.timestamp(),
+        apiKeyValid: true,
+        userId: FAKE_USER_ID,
+      })),
+    ];
+  }
+
+  // ==========================================================================
+  // Transport
+  // ==========================================================================
+
+  /**
+   * Fetch-compatible handler; the base URL is ignored
+   */
+  readonly fetch = async (
+    input: string | URL | Request,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    request.signal.throwIfAborted();
+    if (this.options.latencyMs) {
+      await sleep(this.options.latencyMs, request.signal);
+    }
+    if (!request.body) {
+      return this.handle(request);
+    }
+    // A body that fails while streaming fails the fetch, as Node's fetch does
+    const body = await request.arrayBuffer().catch((error: unknown) => {
+      throw new TypeError("fetch failed", { cause: error });
+    });
+    return this.handle(new Request(request, { body }));
+  };
+
+  /**
+   * Serve the fake over HTTP on localhost
+   * @param port - Port to bind; a free port when omitted
+   */
+  async listen(port = 0): Promise<FakeServerHandle> {
+    const server = createServer(async (req, res) => {
+      try {
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(req.headers)) {
+          if (value !== undefined) {
+            headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+          }
+        }
+        const hasBody = req.method !== "GET" && req.method !== "HEAD";
+        const response = await this.fetch(
+          `http://${req.headers.host ?? "localhost"}${req.url ?? "/"}`,
+          {
+            method: req.method,
+            headers,
+            body: hasBody ? (Readable.toWeb(req) as ReadableStream) : undefined,
+            ...(hasBody ? { duplex: "half" } : {}),
+          }
+        );
+        res.writeHead(response.status, Object.fromEntries(response.headers));
+        res.end(Buffer.from(await response.arrayBuffer()));
+      } catch (error) {
+        // A bug in the fake must fail the request, not leave it hanging
+        if (res.headersSent) {
+          res.destroy();
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        res.writeHead(500, { "content-type": "application/json" });
+        res.end(JSON.stringify({ statusCode: 500, message }));
+      }
+    });
+
+    await new Promise<void>((resolve) =>
+      server.listen(port, "127.0.0.1", resolve)
+    );
+    const address = server.address() as AddressInfo;
+
+    return {
+      url: `http://127.0.0.1:${address.port}`,
+      close: () =>
+        new Promise((resolve, reject) =>
+          server.close((error) => (error ? reject(error) : resolve()))
+        ),
+    };
+  }
+
+  // ==========================================================================
+  // Controls
+  // ==========================================================================
+
+  /**
+   * Current time as seen by the fake
+   */
+  now(): number {
+    return Date.now() + this.offsetMs;
+  }
+
+  /**
+   * Move the fake clock forward; pending requests past their deadline expire
+   */
+  advanceTime(ms: number): void {
+    this.offsetMs += ms;
+    this.expireOverdue();
+  }
+
+  /**
+   * Sign on behalf of a recipient, as if they completed the signing flow
+   */
+  signAs(requestId: string | number, email: string): void {
+    const request = this.findRequest(String(requestId));
+    const signer = request?.signers.find(
+      (entry) => entry.signerEmail.toLowerCase() === email.toLowerCase()
+    );
+    if (!request || !signer) {
+      throw new Error(`No signer ${email} on signature request ${requestId}`);
+    }
+    this.applySignature(request, signer);
+  }
+
+  /**
+   * Settle the blockchain transaction of a completed signature request
+   */
+  setRequestTxStatus(
+    requestId: string | number,
+    txStatus: VerificationTxStatus
+  ): void {
+    const request = this.findRequest(String(requestId));
+    if (!request) {
+      throw new Error(`Unknown signature request ${requestId}`);
+    }
+    request.txStatus = txStatus;
+    request.txHash ??= `0x${randomHex()}`;
+    request.updatedAt = this.timestamp();
+  }
+
+  /**
+   * Settle the blockchain transaction anchoring a document version
+   * @param versionId - Version UUID
+   */
+  setVersionTxStatus(versionId: string, txStatus: VerificationTxStatus): void {
+    const version = this.findVersion(versionId);
+    if (!version) {
+      throw new Error(`Unknown document version ${versionId}`);
+    }
+    const current = this.transactions.get(version.id);
+    this.transactions.set(version.id, {
+      txStatus,
+      txHash: current?.txHash ?? `0x${randomHex()}`,
+      updatedAt: this.timestamp(),
+    });
+  }
+
+  /**
+   * KYC data returned by `kyc.share` for this email
+   */
+  setKycProfile(email: string, data: KycData): void {
+    this.kycProfiles.set(email.toLowerCase(), data);
+  }
+
+  /**
+   * Fail upcoming matching requests with an error status
+   */
+  injectFault(fault: FakeFault): void {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+  }
+
+  /**
+   * Drop all state, faults, recorded requests and clock offset
+   */
+  reset(): void {
+    this.requests.length = 0;
+    this.offsetMs = 0;
+    this.nextId = 1;
+    this.faults = [];
+    this.media.clear();
+    this.documents.clear();
+    this.transactions.clear();
+    this.signatureRequests.clear();
+    this.sessions.clear();
+    this.kycProfiles.clear();
+  }
+
+  // ==========================================================================
+  // Dispatch
+  // ==========================================================================
+
+  private route(
+    method: HttpMethod,
+    path: string,
+    handler: RouteHandler
+  ): Route {
+    const pattern = new RegExp(`^${path.replace(/:\w+/g, "([^/]+)")}$`);
+    return { method, pattern, handler };
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname;
+    const contentType = request.headers.get("content-type") ?? "";
+    const text = contentType.includes("application/json")
+      ? await request.text()
+      : "";
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      return json(400, {
+        statusCode: 400,
+        message: "Request body is not valid JSON",
+      });
+    }
+
+    this.requests.push({
+      method: request.method,
+      path,
+      query: Object.fromEntries(url.searchParams),
+      headers: Object.fromEntries(request.headers),
+      body,
+    });
+
+    const fault = this.takeFault(request.method, path);
+    if (fault) {
+      return json(
+        fault.status,
+        {
+          statusCode: fault.status,
+          message: fault.message ?? "Injected fault",
+        },
+        fault.retryAfterSeconds !== undefined
+          ? { "retry-after": String(fault.retryAfterSeconds) }
+          : undefined
+      );
+    }
+
+    const authorization = request.headers.get("authorization") ?? "";
+    const key = authorization.replace(/^Bearer\s+/i, "");
+    if (
+      !key.startsWith("sk_") ||
+      (this.options.secretKey !== undefined && key !== this.options.secretKey)
+    ) {
+      return json(401, { statusCode: 401, message: "Invalid API key" });
+    }
+
+    for (const route of this.routes) {
+      const match = route.method === request.method && route.pattern.exec(path);
+      if (!match) {
+        continue;
+      }
+      try {
+        this.expireOverdue();
+        const result = await route.handler({
+          params: match.slice(1).map(decodeURIComponent),
+          query: url.searchParams,
+          body,
+          request,
+        });
+        return json(200, result);
+      } catch (error) {
+        if (error instanceof FakeHttpError) {
+          return json(error.status, {
+            statusCode: error.status,
+            message: error.message,
+          });
+        }
+        throw error;
+      }
+    }
+
+    return json(404, {
+      statusCode: 404,
+      message: `Cannot ${request.method} ${path}`,
+    });
+  }
+
+  private takeFault(method: string, path: string): FakeFault | undefined {
+    const index = this.faults.findIndex(
+      (fault) =>
+        (!fault.method || fault.method === method) &&
+        (!fault.path ||
+          (typeof fault.path === "string"
+            ? fault.path === path
+            : fault.path.test(path)))
+    );
+    const fault = this.faults[index];
+    if (!fault) {
+      return undefined;
+    }
+    fault.remaining--;
+    if (fault.remaining <= 0) {
+      this.faults.splice(index, 1);
+    }
+    return fault;
+  }
+
+  // ==========================================================================
+  // State helpers
+  // ==========================================================================
+
+  private timestamp(): string {
+    return new Date(this.now()).toISOString();
+  }
+
+  private id(): number {
+    return this.nextId++;
+  }
+
+  private get ownerEmail(): string {
+    return this.options.ownerEmail ?? DEFAULT_OWNER_EMAIL;
+  }
+
+  private findDocument(documentId: string): Document | undefined {
+    return [...this.documents.values()].find(
+      (document) =>
+        document.uuid === documentId || String(document.id) === documentId
+    );
+  }
+
+  private findVersion(versionId: string): DocumentVersion | undefined {
+    for (const document of this.documents.values()) {
+      const version = document.versions.find(
+        (entry) => entry.uuid === versionId || String(entry.id) === versionId
+      );
+      if (version) {
+        return version;
+      }
+    }
+    return undefined;
+  }
+
+  private findRequest(requestId: string): SignatureRequest | undefined {
+    return [...this.signatureRequests.values()].find(
+      (request) =>
+        request.uuid === requestId || String(request.id) === requestId
+    );
+  }
+
+  private expireOverdue(): void {
+    const now = this.now();
+    for (const request of this.signatureRequests.values()) {
+      if (request.status === "pending" && Date.parse(request.dueDate) <= now) {
+        request.status = "expired";
+        request.updatedAt = this.timestamp();
+      }
+    }
+  }
+
+  private applySignature(request: SignatureRequest, signer: Signer): void {
+    if (request.status !== "pending") {
+      throw new FakeHttpError(
+        409,
+        `Signature request is ${request.status}, cannot sign`
+      );
+    }
+    if (signer.signedAt) {
+      throw new FakeHttpError(409, "Document already signed by this signer");
+    }
+
+    const now = this.timestamp();
+    signer.signedAt = now;
+    signer.signatureHash = randomHex();
+    signer.updatedAt = now;
+    request.updatedAt = now;
+
+    if (request.signers.every((entry) => entry.signedAt)) {
+      request.status = "completed";
+      request.txStatus = "pending";
+      request.certificateHash = randomHex();
+    }
+  }
+
+  // ==========================================================================
+  // Media
+  // ==========================================================================
+
+  private async upload({ request }: RouteContext) {
+    const form = await request.formData().catch(() => {
+      throw new FakeHttpError(400, "Expected multipart/form-data body");
+    });
+    const files = form
+      .getAll("media")
+      .filter(
+        (entry): entry is Exclude<typeof entry, string> =>
+          typeof entry !== "string"
+      );
+    if (files.length === 0) {
+      throw new FakeHttpError(400, "No files uploaded");
+    }
+
+    const media = await Promise.all(
+      files.map(async (file): Promise<Media> => {
+        const bytes = new Uint8Array(await file.arrayBuffer());
+        const key = `media/${randomUUID()}/${encodeURIComponent(file.name)}`;
+        const entry: Media = {
+          type: getMediaType(file.type),
+          name: file.name,
+          key,
+          url: `${FAKE_MEDIA_URL}/${key}`,
+          hash: createHash("sha256").update(bytes).digest("hex"),
+          size: bytes.byteLength,
+        };
+        this.media.set(key, entry);
+        return entry;
+      })
+    );
+
+    return { success: true, media, message: "Files uploaded" };
+  }
+
+  // ==========================================================================
+  // Documents
+  // ==========================================================================
+
+  private createVersion(
+    document: Document,
+    params: UpdateDocumentParams
+  ): DocumentVersion {
+    if (!params.media) {
+      throw new FakeHttpError(400, "media is required");
+    }
+    const now = this.timestamp();
+    const version: DocumentVersion = {
+      id: this.id(),
+      uuid: randomUUID(),
+      name: params.name,
+      documentVersion: String(document.versions.length + 1),
+      description: params.description,
+      media: params.media,
+      meta: params.meta,
+      isForSigning: params.isForSigning ?? false,
+      status: params.status,
+      versionHash: params.media.hash ?? randomHex(),
+      documentId: document.id,
+      tags: (params.hashtags ?? []).map((tag) => ({ id: this.id(), tag })),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    document.versions.push(version);
+    document.currentVersionId = version.id;
+    document.currentVersion = version;
+    document.updatedAt = now;
+    this.transactions.set(version.id, {
+      // Publishing starts the blockchain anchoring
+      txStatus: params.status === "published" ? "pending" : "initialized",
+      updatedAt: now,
+    });
+    return version;
+  }
+
+  private createDocument(params: CreateDocumentParams) {
+    const now = this.timestamp();
+    const document: Document = {
+      id: this.id(),
+      uuid: randomUUID(),
+      txtId: randomHex(16),
+      userId: FAKE_USER_ID,
+      coreTeamId: FAKE_TEAM_ID,
+      accessType: params.accessType ?? "private",
+      versions: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.createVersion(document, params);
+    this.documents.set(document.uuid, document);
+
+    return {
+      success: true,
+      documentId: document.uuid,
+      document,
+      message: "Document created",
+    };
+  }
+
+  private updateDocument(documentId: string, params: UpdateDocumentParams) {
+    const document = this.findDocument(documentId);
+    if (!document) {
+      throw new FakeHttpError(404, "Document not found");
+    }
+    this.createVersion(document, params);
+    return {
+      success: true,
+      documentId: document.uuid,
+      document,
+      message: "Document updated",
+    };
+  }
+
+  private updateRights(documentId: string, params: UpdateDocumentRightsParams) {
+    const document = this.findDocument(documentId);
+    if (!document) {
+      throw new FakeHttpError(404, "Document not found");
+    }
+    document.accessType = params.accessType;
+    document.updatedAt = this.timestamp();
+    return {
+      success: true,
+      documentId: document.uuid,
+      document,
+      message: "Access rights updated",
+    };
+  }
+
+  // ==========================================================================
+  // Verification
+  // ==========================================================================
+
+  private verificationFor(version: DocumentVersion): VerifyDocumentResponse {
+    const document = [...this.documents.values()].find(
+      (entry) => entry.id === version.documentId
+    );
+    const transaction = this.transactions.get(version.id);
+    const verified = transaction?.txStatus === "verified";
+
+    return {
+      success: true,
+      verified,
+      document: {
+        id: document?.uuid ?? String(version.documentId),
+        versionId: version.uuid,
+        name: version.name ?? "",
+        versionHash: version.versionHash ?? "",
+        status: version.status,
+      },
+      verification:
+        transaction?.txHash !== undefined
+          ? {
+              txHash: transaction.txHash,
+              chainId: FAKE_CHAIN_ID,
+              status: transaction.txStatus,
+              verifiedAt: transaction.updatedAt,
+            }
+          : undefined,
+    };
+  }
+
+  private verify(params: VerifyDocumentParams): VerifyDocumentResponse {
+    const version = [...this.documents.values()]
+      .flatMap((document) => document.versions)
+      .find((entry) => entry.versionHash === params.versionHash);
+    if (!version) {
+      return { success: true, verified: false };
+    }
+
+    const response = this.verificationFor(version);
+    if (params.certificateHash) {
+      response.certificate = {
+        hash: params.certificateHash,
+        valid: [...this.signatureRequests.values()].some(
+          (request) =>
+            request.versionId === version.id &&
+            request.certificateHash === params.certificateHash
+        ),
+      };
+    }
+    return response;
+  }
+
+  private getVerification(versionId: string): VerifyDocumentResponse {
+    const version = this.findVersion(versionId);
+    if (!version) {
+      throw new FakeHttpError(404, "Document version not found");
+    }
+    return this.verificationFor(version);
+  }
+
+  // ==========================================================================
+  // Signatures
+  // ==========================================================================
+
+  private createRequest(params: CreateSignatureRequestParams) {
+    const version = this.findVersion(String(params.versionId));
+    if (!version) {
+      throw new FakeHttpError(404, "Document version not found");
+    }
+    if (!params.recipients?.length) {
+      throw new FakeHttpError(400, "recipients must not be empty");
+    }
+    if (
+      params.isKycRequired &&
+      params.embeddedFlow &&
+      params.recipients.some((recipient) => !recipient.shareToken)
+    ) {
+      throw new FakeHttpError(
+        400,
+        "shareToken is required for every recipient when KYC is required"
+      );
+    }
+
+    const now = this.timestamp();
+    const id = this.id();
+    const signers = params.recipients.map(
+      (recipient): Signer => ({
+        id: this.id(),
+        requestId: id,
+        signerEmail: recipient.email,
+        createdAt: now,
+        updatedAt: now,
+      })
+    );
+    const request: SignatureRequest = {
+      id,
+      uuid: randomUUID(),
+      userId: FAKE_USER_ID,
+      versionId: version.id,
+      status: "pending",
+      meta: params.meta,
+      messageText: params.message,
+      // Sent as an ISO string over the wire
+      dueDate: new Date(params.deadline).toISOString(),
+      isKycRequired: params.isKycRequired ?? false,
+      embeddedFlow: params.embeddedFlow ?? false,
+      txStatus: "initialized",
+      signers,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.signatureRequests.set(id, request);
+
+    return { signatureRequest: request, recipients: signers };
+  }
+
+  private getStatus(requestId: string): SignatureRequestStatus {
+    const request = this.findRequest(requestId);
+    if (!request) {
+      throw new FakeHttpError(404, "Signature request not found");
+    }
+    const signedCount = request.signers.filter(
+      (signer) => signer.signedAt
+    ).length;
+
+    return {
+      success: true,
+      requestId: request.id,
+      status: request.status,
+      versionId: request.versionId,
+      totalSigners: request.signers.length,
+      signedCount,
+      pendingCount: request.signers.length - signedCount,
+      isCompleted: request.status === "completed",
+      dueDate: request.dueDate,
+      signers: request.signers,
+    };
+  }
+
+  private sign(params: SignDocumentParams) {
+    const request = this.findRequest(String(params.requestId));
+    if (!request) {
+      throw new FakeHttpError(404, "Signature request not found");
+    }
+    const signer = request.signers.find(
+      (entry) => entry.id === params.signatureId
+    );
+    if (!signer) {
+      throw new FakeHttpError(404, "Signature not found");
+    }
+    if (signer.signerEmail.toLowerCase() !== this.ownerEmail.toLowerCase()) {
+      throw new FakeHttpError(403, "API key owner is not this signer");
+    }
+
+    signer.messageText = params.messageText;
+    signer.meta = params.meta;
+    this.applySignature(request, signer);
+
+    return {
+      success: true,
+      requestId: request.uuid,
+      signedAt: signer.signedAt!,
+      message: "Document signed",
+    };
+  }
+
+  private getSignatures(query: URLSearchParams) {
+    const owner = this.ownerEmail.toLowerCase();
+    const requests = [...this.signatureRequests.values()].filter((request) =>
+      request.signers.some(
+        (signer) => signer.signerEmail.toLowerCase() === owner
+      )
+    );
+    const count = (status: SignatureRequest["status"]) =>
+      requests.filter((request) => request.status === status).length;
+
+    return {
+      ...paginate(requests, query),
+      totalPending: count("pending"),
+      totalCompleted: count("completed"),
+      totalExpired: count("expired"),
+    };
+  }
+
+  // ==========================================================================
+  // Embedded sessions, KYC, API key
+  // ==========================================================================
+
+  private createSession(
+    params: CreateEmbeddedSessionParams
+  ): EmbeddedSessionResponse {
+    if (!this.findDocument(String(params.metadata?.documentId))) {
+      throw new FakeHttpError(404, "Document not found");
+    }
+    const session: EmbeddedSessionResponse = {
+      success: true,
+      sessionId: `ses_${randomHex(12)}`,
+      email: params.email,
+      status: "active",
+      expiresAt: new Date(
+        this.now() + SESSION_TTL_MINUTES * 60 * 1000
+      ).toISOString(),
+      expiresInMinutes: SESSION_TTL_MINUTES,
+      metadata: params.metadata,
+      message: "Session created",
+      createdAt: this.timestamp(),
+    };
+    this.sessions.set(session.sessionId, session);
+    return session;
+  }
+
+  private shareKyc(params: ShareKycParams) {
+    const profile = this.kycProfiles.get(String(params.email).toLowerCase());
+    if (!profile && !params.shareToken) {
+      return {
+        success: false,
+        error: "No KYC data found for this email",
+        email: params.email,
+        sharedAt: this.timestamp(),
+        message: "KYC share failed",
+      };
+    }
+
+    return {
+      success: true,
+      message: "KYC data shared",
+      shareToken: params.shareToken ?? randomHex(16),
+      email: params.email,
+      sharedAt: this.timestamp(),
+      kycData: profile ?? { verified: true },
+    };
+  }
+
+  private getApiKeyInfo(): ApiKeyInfo {
+    return {
+      keyId: 1,
+      keyName: "Fake API key",
+      userId: FAKE_USER_ID,
+      lastUsedAt: this.timestamp(),
+      isActive: true,
+      accessLevel: "full",
+    };
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * @chaindoc_io/server-sdk/testing
+ *
+ * Test utilities: an in-memory fake of the Chaindoc API
+ *
+ * @packageDocumentation
+ */
+
+export { FakeChaindocServer } from "./fake-server";
+export type {
+  FakeChaindocServerOptions,
+  FakeFault,
+  FakeRequestRecord,
+  FakeServerHandle,
+} from "./fake-server";
@@ -2,6 +2,8 @@
  * Chaindoc Server SDK Types
  */
 
+import type { Readable } from "node:stream";
+
 // ============================================================================
 // Configuration
 // ============================================================================
@@ -24,35 +26,342 @@ export interface RetryConfig {
    * @default 10000
    */
   maxDelayMs?: number;
+
+  /**
+   * Longest server-requested delay (Retry-After or rate-limit reset on 429/503)
+   * the SDK will wait before retrying. Longer waits fail immediately instead.
+   * @default 60000
+   */
+  maxRetryAfterMs?: number;
+}
+
+/**
+ * Client-side rate limiting
+ * Applies to every attempt, including retries and uploads, with one limiter per API key
+ */
+export interface RateLimitConfig {
+  /**
+   * Sustained request rate (token bucket refill rate)
+   * Unlimited when omitted
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * Bucket size, the number of requests allowed in a burst
+   * @default requestsPerSecond
+   */
+  burst?: number;
+
+  /**
+   * Maximum number of requests in flight at once
+   * Unlimited when omitted
+   */
+  maxConcurrency?: number;
+
+  /**
+   * Pause dispatching when the API reports an exhausted budget
+   * (`X-RateLimit-Remaining: 0` or a 429 with `Retry-After`)
+   * @default true
+   */
+  adaptive?: boolean;
+}
+
+/**
+ * Reads the response cache can serve
+ * - apiKeyInfo: `getApiKeyInfo()`
+ * - verificationStatus: `documents.getVerificationStatus()` for verified versions
+ * - requestStatus: `signatures.getRequestStatus()` for completed, expired or cancelled requests
+ */
+export type CacheableRead = "apiKeyInfo" | "verificationStatus" | "requestStatus";
+
+/**
+ * Storage backend for the response cache, e.g. Redis
+ * Values are plain JSON-serializable objects; implementations may return a promise
+ */
+export interface CacheStore {
+  /**
+   * Stored value, or undefined when missing or expired
+   */
+  get(key: string): unknown | Promise<unknown>;
+  set(key: string, value: unknown, ttlMs: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Response cache for reads whose result can no longer change
+ * Entries are kept per API key and invalidated by related writes
+ */
+export interface CacheConfig {
+  /**
+   * @default new MemoryCacheStore()
+   */
+  store?: CacheStore;
+
+  /**
+   * Time to live per read in milliseconds; 0 disables caching of that read
+   * @default { apiKeyInfo: 60000, verificationStatus: 600000, requestStatus: 600000 }
+   */
+  ttl?: Partial<Record<CacheableRead, number>>;
+}
+
+/**
+ * Cassette mode
+ * - record: send requests to the API and save every interaction to the cassette
+ * - replay: answer requests from the cassette without network access
+ */
+export type CassetteMode = "record" | "replay";
+
+/**
+ * How replayed requests are matched to recorded interactions
+ * - strict: requests must arrive in recorded order with the same method, path, query and JSON body
+ * - loose: the first unplayed interaction with the same method and path, ignoring query and body
+ */
+export type CassetteMatching = "strict" | "loose";
+
+/**
+ * HTTP record/replay for integration tests
+ * The `Authorization` header, share tokens and KYC personal data are redacted when recording
+ */
+export interface CassetteConfig {
+  mode: CassetteMode;
+
+  /**
+   * Path of the JSON cassette file
+   * Overwritten when recording
+   */
+  path: string;
+
+  /**
+   * @default 'strict'
+   */
+  match?: CassetteMatching;
+
+  /**
+   * Additional JSON body keys to redact, at any depth
+   */
+  redactKeys?: string[];
+}
+
+/**
+ * Recorded request and response
+ * JSON bodies are stored parsed; `body` is omitted for streamed uploads
+ */
+export interface CassetteInteraction {
+  request: {
+    method: HttpMethod;
+    /** Path and query, without the environment's base URL */
+    path: string;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body?: unknown;
+  };
+}
+
+/**
+ * Contents of a cassette file
+ */
+export interface CassetteFile {
+  version: 1;
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+}
+
+/**
+ * Queue priority when the rate limiter is saturated
+ * Higher priorities are dispatched first
+ */
+export type RequestPriority = "high" | "normal" | "low";
+
+/**
+ * HTTP methods used by the Chaindoc API
+ */
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE";
+
+/**
+ * Request body encoding
+ * - json: serialized with JSON.stringify
+ * - multipart: FormData, boundary set by fetch
+ * - raw: passed to fetch unchanged (string, Blob, Uint8Array, ReadableStream),
+ *   or a function returning such a body, called once per attempt
+ */
+export type RequestBodyType = "json" | "multipart" | "raw";
+
+/**
+ * Outgoing request as seen by middleware
+ * Middleware may return a modified copy before passing it to `next`
+ */
+export interface MiddlewareRequest {
+  method: HttpMethod;
+  /**
+   * API path, e.g. `/api/v1/documents`
+   */
+  endpoint: string;
+  /**
+   * Absolute URL the request is sent to
+   */
+  url: string;
+  headers: Record<string, string>;
+  body?: unknown;
+  bodyType: RequestBodyType;
+  /**
+   * Per-attempt timeout in milliseconds
+   */
+  timeout: number;
+  /**
+   * Zero-based attempt number, incremented by the retry middleware
+   */
+  attempt: number;
+  /**
+   * Disables the retry middleware for this request
+   */
+  noRetry: boolean;
+  /**
+   * Per-call overrides of `ChaindocConfig.retry`
+   */
+  retry?: RetryConfig;
+  priority: RequestPriority;
+  /**
+   * Identifies the logical call across attempts; matches `TelemetryEvent.callId`
+   */
+  callId: string;
+  /**
+   * Caller's abort signal
+   * The timeout middleware replaces it with a per-attempt signal that also fires on timeout
+   */
+  signal?: AbortSignal;
+}
+
+export interface MiddlewareResponse<T = unknown> {
+  status: number;
+  headers: Headers;
+  data: T;
+}
+
+export type MiddlewareNext = (
+  request: MiddlewareRequest
+) => Promise<MiddlewareResponse>;
+
+/**
+ * Request/response interceptor
+ *
+ * Call `next` to continue the chain, or return a response without calling it
+ * to short-circuit the request. Errors thrown by `next` are `ChaindocError`s.
+ */
+export type Middleware = (
+  request: MiddlewareRequest,
+  next: MiddlewareNext
+) => Promise<MiddlewareResponse>;
+
+/**
+ * fetch-compatible function
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+/**
+ * Structural type of an undici `Dispatcher` (`Agent`, `Pool`, `ProxyAgent`, ...)
+ * Declared here so the SDK does not depend on undici
+ */
+export interface Dispatcher {
+  dispatch(options: unknown, handler: unknown): boolean;
 }
 
+/**
+ * Log verbosity
+ * - debug: every request and response
+ * - info: retries and failed calls
+ * - warn: problems the caller is not otherwise told about, e.g. response validation mismatches
+ * - silent: nothing
+ */
+export type LogLevel = "debug" | "info" | "warn" | "silent";
+
+/**
+ * Log sink; `console` fits, other logging libraries need a small adapter
+ * `data` holds structured fields and is already redacted
+ */
+export interface Logger {
+  debug(message: string, data?: Record<string, unknown>): void;
+  info(message: string, data?: Record<string, unknown>): void;
+  warn(message: string, data?: Record<string, unknown>): void;
+}
+
+/**
+ * How responses are checked against the SDK's types
+ * - strict: throw ResponseValidationError on mismatch
+ * - warn: log the mismatch and return the response
+ * - off: no checks
+ */
+export type ResponseValidationMode = "strict" | "warn" | "off";
+
 /**
  * Available API environments
  */
 export type ChaindocEnvironment = "production" | "staging" | "development";
 
+/**
+ * Live keys (`sk_live_`) are for production, test keys (`sk_test_`) for staging and development
+ */
+export type KeyMode = "live" | "test";
+
+/**
+ * Returns the current secret key, e.g. from a secrets vault
+ * Called once per call and reused by its retries, so a rotated key is picked up
+ * without a restart; cache inside the provider to avoid a vault round trip per request
+ */
+export type SecretKeyProvider = () => string | Promise<string>;
+
 export interface ChaindocConfig {
   /**
-   * Secret API key (starts with sk_)
+   * Secret API key (starts with sk_), or a provider returning it
    * Required for write operations
    */
-  secretKey: string;
+  secretKey: string | SecretKeyProvider;
 
   /**
    * API environment
    * - production: https://api.chaindoc.io
    * - staging: https://api-demo.chaindoc.io
    * - development: https://api-demo.chaindoc.io
-   * @default 'production'
+   *
+   * A key whose mode does not match is refused: `sk_live_` keys only work with
+   * production, `sk_test_` keys only with staging and development.
+   * @default 'staging' for `sk_test_` keys, otherwise 'production'
    */
   environment?: ChaindocEnvironment;
 
+  /**
+   * API base URL, e.g. a regional endpoint, an egress proxy or a local mock server
+   * Takes precedence over `environment`; the key mode is not checked against it
+   */
+  baseUrl?: string;
+
+  /**
+   * fetch implementation used for every request
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * undici dispatcher passed to fetch, e.g. an `Agent` with keep-alive and mTLS or a `ProxyAgent`
+   * Honoured by Node's built-in fetch and undici's fetch
+   */
+  dispatcher?: Dispatcher;
+
   /**
    * Request timeout in milliseconds
    * @default 30000
    */
   timeout?: number;
 
+  /**
+   * Timeout for file uploads in milliseconds
+   * @default twice `timeout`
+   */
+  uploadTimeout?: number;
+
   /**
    * Custom headers to include in all requests
    */
@@ -63,17 +372,319 @@ export interface ChaindocConfig {
    * Retries on 5xx errors and network failures
    */
   retry?: RetryConfig;
+
+  /**
+   * Middleware applied to every request, in order
+   * Runs outside the built-in retry, timeout and auth middleware,
+   * so it is invoked once per call rather than once per attempt
+   */
+  middleware?: Middleware[];
+
+  /**
+   * Client-side rate limiter and concurrency cap
+   * Disabled when omitted
+   */
+  rateLimit?: RateLimitConfig;
+
+  /**
+   * Cache responses of reads whose result can no longer change
+   * Disabled when omitted
+   */
+  cache?: CacheConfig;
+
+  /**
+   * Share one in-flight request between concurrent identical GETs (same URL, key,
+   * client headers and timeout); calls passing `headers`, `timeout`, `retry` or
+   * `priority` are always sent on their own
+   * Each caller can still abort on its own; the request is aborted once all have
+   * @default false
+   */
+  dedupeRequests?: boolean;
+
+  /**
+   * Webhook signing secret used by `chaindoc.webhooks`
+   * Can also be passed per call to `constructEvent`
+   */
+  webhookSecret?: string;
+
+  /**
+   * Check response bodies against the SDK's types at runtime
+   * Useful in staging to catch API contract changes early
+   * @default 'off'
+   */
+  responseValidation?: ResponseValidationMode;
+
+  /**
+   * Record API interactions to a cassette file, or replay them offline
+   */
+  cassette?: CassetteConfig;
+
+  /**
+   * Storage for `chaindoc.workflows`
+   * Defaults to in-memory storage, which loses workflows on restart
+   */
+  workflowStorage?: SigningWorkflowStorage;
+
+  /**
+   * Listeners for request lifecycle events, e.g. `createOpenTelemetryListener()`
+   * Listener errors are ignored
+   */
+  telemetry?: TelemetryListener | TelemetryListener[];
+
+  /**
+   * Receives SDK log entries, with secret keys, share tokens and KYC personal data redacted
+   * @default console
+   */
+  logger?: Logger;
+
+  /**
+   * Minimum level passed to `logger`
+   * @default 'warn'
+   */
+  logLevel?: LogLevel;
+}
+
+/**
+ * Overrides for a client created with `chaindoc.withOptions()`
+ */
+export interface ScopedClientOptions {
+  /**
+   * Key for this client, e.g. a tenant's own key
+   * Checked against the parent's `environment`
+   */
+  secretKey?: string | SecretKeyProvider;
+
+  /**
+   * Merged over the parent's headers
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Request timeout in milliseconds
+   */
+  timeout?: number;
+}
+
+// ============================================================================
+// Telemetry Types
+// ============================================================================
+
+/**
+ * Identifies the logical call an event belongs to, across retry attempts
+ */
+export interface TelemetryCall {
+  /**
+   * Unique per call, shared by every event of the call
+   */
+  callId: string;
+  method: HttpMethod;
+  /**
+   * API path as called, e.g. `/api/v1/signatures/requests/42/status`
+   */
+  endpoint: string;
+  /**
+   * Path with identifiers replaced, e.g. `/api/v1/signatures/requests/:id/status`
+   * Low-cardinality, suitable for span names and metric attributes
+   */
+  route: string;
 }
 
+/**
+ * Why a failed attempt is retried
+ */
+export type RetryReason = "rate_limited" | "server_error" | "timeout" | "network";
+
+/**
+ * Lifecycle event emitted by the HTTP client
+ * - request.start: a call was made, before rate limiting and retries
+ * - attempt.start: an attempt is sent (`attempt` is zero-based)
+ * - retry: an attempt failed and the next starts after `delayMs`
+ * - upload.progress: request body bytes streamed by the current attempt
+ * - response: the call succeeded
+ * - error: the call failed for good
+ */
+export type TelemetryEvent =
+  | ({ type: "request.start"; timestamp: number } & TelemetryCall)
+  | ({ type: "attempt.start"; timestamp: number; attempt: number } & TelemetryCall)
+  | ({
+      type: "retry";
+      timestamp: number;
+      attempt: number;
+      delayMs: number;
+      reason: RetryReason;
+      statusCode?: number;
+      error: Error;
+    } & TelemetryCall)
+  | ({
+      type: "upload.progress";
+      timestamp: number;
+      attempt: number;
+      bytesSent: number;
+      totalBytes?: number;
+    } & TelemetryCall)
+  | ({
+      type: "response";
+      timestamp: number;
+      statusCode: number;
+      attempts: number;
+      durationMs: number;
+      requestId?: string;
+    } & TelemetryCall)
+  | ({
+      type: "error";
+      timestamp: number;
+      error: unknown;
+      statusCode?: number;
+      attempts: number;
+      durationMs: number;
+      requestId?: string;
+    } & TelemetryCall);
+
+export type TelemetryListener = (event: TelemetryEvent) => void;
+
 // ============================================================================
 // Common Types
 // ============================================================================
 
+/**
+ * Per-call options accepted by every API method
+ */
+export interface CallOptions {
+  /**
+   * Cancels the call, including pending retries and rate-limit queueing
+   * The call rejects with the signal's reason
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Per-attempt timeout in milliseconds
+   * @default ChaindocConfig.timeout
+   */
+  timeout?: number;
+
+  /**
+   * Extra headers for this call, merged over `ChaindocConfig.headers`
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Overrides of `ChaindocConfig.retry` for this call, or `false` to disable retries
+   */
+  retry?: RetryConfig | false;
+
+  /**
+   * Queue priority when `rateLimit` is saturated, e.g. `low` for batch jobs
+   * @default 'normal' ('high' for `embedded.createSession`)
+   */
+  priority?: RequestPriority;
+}
+
+/**
+ * Options for calls that create or modify resources
+ */
+export interface IdempotentCallOptions extends CallOptions {
+  /**
+   * Idempotency key sent as the `Idempotency-Key` header
+   * Generated per call when omitted; reused across retry attempts
+   */
+  idempotencyKey?: string;
+}
+
 export interface PaginationParams {
   pageNumber?: number;
   pageSize?: number;
 }
 
+/**
+ * `timeout`, `headers`, `retry` and `priority` apply to every page request
+ */
+export interface IteratePagesOptions<T> extends CallOptions {
+  /**
+   * Items requested per page
+   * @default 100
+   */
+  pageSize?: number;
+
+  /**
+   * Stops iteration, cancelling the page request in flight
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Only yield items matching the predicate
+   */
+  filter?: (item: T) => boolean;
+}
+
+export interface ToArrayOptions {
+  /**
+   * Maximum number of items to collect
+   */
+  limit?: number;
+}
+
+/**
+ * `timeout`, `headers`, `retry` and `priority` apply to every poll request
+ */
+export interface PollOptions<TProgress> extends CallOptions {
+  /**
+   * Delay before the second poll in milliseconds
+   * @default 2000
+   */
+  intervalMs?: number;
+
+  /**
+   * Multiplier applied to the interval after each poll
+   * @default 1.5
+   */
+  backoff?: number;
+
+  /**
+   * Upper bound for the interval in milliseconds
+   * @default 30000
+   */
+  maxIntervalMs?: number;
+
+  /**
+   * Overall time limit in milliseconds, rejects with TimeoutError when exceeded
+   * Unlike `timeout`, which limits each poll request
+   * @default 600000
+   */
+  timeoutMs?: number;
+
+  /**
+   * Stops polling, cancelling the poll request in flight
+   * The returned promise rejects with the signal's reason
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Called after every poll
+   */
+  onProgress?: (progress: TProgress) => void;
+}
+
+/**
+ * Validation failure for a single request field
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Mismatch between a response body and its expected type
+ */
+export interface ResponseValidationIssue {
+  /**
+   * Location in the body, e.g. `signatureRequest.signers[0].id`
+   * Empty for the body itself
+   */
+  path: string;
+  expected: string;
+  received: string;
+}
+
 export interface PaginatedResponse<T> {
   data: T[];
   total: number;
@@ -115,10 +726,76 @@ export interface Media {
   compressed?: string;
 }
 
-export interface MediaUploadResponse {
-  success: boolean;
-  media: Media[];
-  message: string;
+export interface MediaUploadResponse {
+  success: boolean;
+  media: Media[];
+  message: string;
+}
+
+/**
+ * File contents with an explicit name
+ * Use for buffers and streams, which carry no filename of their own
+ */
+export interface UploadSource {
+  data: Uint8Array | Blob | Readable | ReadableStream<Uint8Array>;
+  filename: string;
+  /**
+   * Sent only when the type cannot be detected from the contents
+   * and `validate` is disabled
+   */
+  contentType?: string;
+  /**
+   * Byte length of stream data, reported as `total` in progress events
+   */
+  size?: number;
+}
+
+export type UploadInput = File | Blob | UploadSource;
+
+/**
+ * Why a file was rejected before upload
+ */
+export type UploadValidationReason = "unsupported_type" | "empty" | "too_large";
+
+export interface UploadProgressEvent {
+  /**
+   * Position of the file in the uploaded list
+   */
+  fileIndex: number;
+  filename: string;
+  /**
+   * Bytes of this file sent so far
+   */
+  loaded: number;
+  /**
+   * File size, when known
+   */
+  total?: number;
+}
+
+export interface UploadOptions extends IdempotentCallOptions {
+  /**
+   * Per-attempt timeout in milliseconds
+   * @default ChaindocConfig.uploadTimeout
+   */
+  timeout?: number;
+
+  /**
+   * Called as file bytes are sent
+   */
+  onProgress?: (event: UploadProgressEvent) => void;
+
+  /**
+   * Reject files larger than this many bytes
+   * Streams are checked while they are read
+   */
+  maxFileSize?: number;
+
+  /**
+   * Check file contents against the supported types before sending
+   * @default true
+   */
+  validate?: boolean;
 }
 
 // ============================================================================
@@ -248,6 +925,61 @@ export interface VerifyDocumentResponse {
   };
 }
 
+/**
+ * File contents accepted for local hashing
+ * A string is treated as a file path
+ */
+export type HashInput =
+  | string
+  | Uint8Array
+  | ArrayBuffer
+  | Blob
+  | Readable
+  | ReadableStream<Uint8Array>;
+
+export interface VerifyFileOptions extends CallOptions {
+  certificateHash?: string;
+}
+
+/**
+ * Result of `documents.verifyFile`
+ * - verified: hash matches a version anchored on-chain
+ * - not_anchored: hash matches a version whose transaction is not verified yet
+ * - not_found: hash matches no document version
+ */
+export type VerifyFileResult =
+  | {
+      outcome: "verified";
+      versionHash: string;
+      verification?: VerificationStatus;
+      response: VerifyDocumentResponse;
+    }
+  | {
+      outcome: "not_anchored";
+      versionHash: string;
+      response: VerifyDocumentResponse;
+    }
+  | { outcome: "not_found"; versionHash: string };
+
+export interface VerificationProgress {
+  txStatus?: VerificationTxStatus;
+  verified: boolean;
+  response: VerifyDocumentResponse;
+}
+
+export type WaitForVerificationOptions = PollOptions<VerificationProgress>;
+
+/**
+ * Terminal state reached by `documents.waitForVerification`
+ */
+export type VerificationOutcome =
+  | {
+      outcome: "verified";
+      verification?: VerificationStatus;
+      response: VerifyDocumentResponse;
+    }
+  | { outcome: "failed"; response: VerifyDocumentResponse };
+
 // ============================================================================
 // Signature Types
 // ============================================================================
@@ -285,6 +1017,13 @@ export interface SignDocumentParams {
   meta?: MetaTag[];
 }
 
+export interface SignDocumentResponse {
+  success: boolean;
+  requestId: string;
+  signedAt: string;
+  message: string;
+}
+
 export interface SignerUser {
   id?: number;
   username?: string;
@@ -367,6 +1106,357 @@ export interface GetSignaturesResponse {
   pageSize: number;
 }
 
+export type WaitForCompletionOptions = PollOptions<SignatureRequestStatus>;
+
+/**
+ * Terminal state reached by `signatures.waitForCompletion`
+ */
+export type SignatureRequestOutcome =
+  | { outcome: "completed"; status: SignatureRequestStatus }
+  | { outcome: "expired"; status: SignatureRequestStatus }
+  | { outcome: "cancelled"; status: SignatureRequestStatus };
+
+export interface IterateSignatureRequestsOptions
+  extends IteratePagesOptions<SignatureRequest> {
+  /**
+   * Only yield requests in the given status(es)
+   */
+  status?: SignRequestStatus | SignRequestStatus[];
+}
+
+export interface RenewSignatureRequestOptions extends IdempotentCallOptions {
+  /**
+   * Deadline of the new request
+   */
+  deadline: Date;
+
+  /**
+   * UUID of the version a request is for, e.g. from the stored `documents.create` response
+   * Requests only carry the numeric `versionId`, while a new request needs the version UUID
+   */
+  versionUuid: (
+    request: SignatureRequest
+  ) => Promise<string | undefined> | string | undefined;
+
+  /**
+   * Only invite signers who never signed the original request
+   * @default false
+   */
+  onlyUnsigned?: boolean;
+
+  /**
+   * Fresh KYC share tokens by signer email
+   * Required for embedded requests with `isKycRequired`, as share tokens are not returned by the API
+   */
+  shareTokens?: Record<string, string>;
+}
+
+/**
+ * Link between a renewed request and the request it replaces
+ */
+export interface SignatureRequestRenewal {
+  previousRequestId: number;
+  previousRequestUuid: string;
+  requestId: number;
+  requestUuid: string;
+  /**
+   * Emails invited to the new request
+   */
+  recipients: string[];
+  response: SignatureRequestResponse;
+}
+
+/**
+ * `timeout`, `headers`, `retry` and `priority` apply to the page requests as well as the renewals
+ */
+export interface RenewExpiredOptions
+  extends Omit<RenewSignatureRequestOptions, "idempotencyKey"> {
+  /**
+   * Only renew expired requests matching the predicate
+   */
+  filter?: (request: SignatureRequest) => boolean;
+
+  /**
+   * Stops the sweep before the next page or request, cancelling the request in flight
+   */
+  signal?: AbortSignal;
+}
+
+export interface RenewExpiredResult {
+  renewed: SignatureRequestRenewal[];
+  /**
+   * Requests that could not be renewed; the sweep continues past them
+   */
+  failed: Array<{ request: SignatureRequest; error: unknown }>;
+}
+
+// ============================================================================
+// Signing Workflow Types
+// ============================================================================
+
+/**
+ * - in_progress: a step is waiting for signatures
+ * - completed: every step was completed or skipped
+ * - expired / cancelled: the active step's request expired or was cancelled in Chaindoc
+ * - aborted: stopped with `cancel()`
+ */
+export type SigningWorkflowStatus =
+  | "in_progress"
+  | "completed"
+  | "expired"
+  | "cancelled"
+  | "aborted";
+
+export type SigningStepStatus =
+  | "waiting"
+  | "pending"
+  | "completed"
+  | "skipped"
+  | "expired"
+  | "cancelled"
+  | "aborted";
+
+export interface StartSigningWorkflowParams {
+  versionId: string;
+
+  /**
+   * Document the version belongs to
+   * Required with `embeddedFlow`, to create signing sessions
+   */
+  documentId?: string;
+
+  /**
+   * Signer groups in signing order
+   * Signers within a group sign in parallel; a group starts once the previous one completes
+   */
+  groups: Recipient[][];
+
+  /**
+   * Deadline applied to every group's signature request
+   */
+  deadline: Date;
+
+  message?: string;
+  meta?: MetaTag[];
+  embeddedFlow?: boolean;
+  isKycRequired?: boolean;
+
+  /**
+   * `metadata.returnUrl` for the embedded sessions created for each group
+   */
+  returnUrl?: string;
+
+  /**
+   * Workflow ID, generated when omitted
+   */
+  id?: string;
+}
+
+export interface SigningSessionRef {
+  email: string;
+  sessionId: string;
+  expiresAt: string;
+}
+
+/**
+ * One group of signers, backed by its own signature request
+ */
+export interface SigningStep {
+  recipients: Recipient[];
+  status: SigningStepStatus;
+  requestId?: number;
+  requestUuid?: string;
+  /**
+   * Embedded sessions created when the step started (`embeddedFlow` only)
+   */
+  sessions: SigningSessionRef[];
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export type SigningWorkflowEventType =
+  | "started"
+  | "step_started"
+  | "step_completed"
+  | "step_skipped"
+  | "step_expired"
+  | "step_cancelled"
+  | "completed"
+  | "aborted";
+
+export interface SigningWorkflowHistoryEntry {
+  type: SigningWorkflowEventType;
+  at: string;
+  step?: number;
+  requestId?: number;
+  reason?: string;
+}
+
+/**
+ * Persisted workflow state, JSON-serializable
+ */
+export interface SigningWorkflowState {
+  id: string;
+  status: SigningWorkflowStatus;
+  versionId: string;
+  documentId?: string;
+  deadline: string;
+  message?: string;
+  meta?: MetaTag[];
+  embeddedFlow: boolean;
+  isKycRequired: boolean;
+  returnUrl?: string;
+  steps: SigningStep[];
+  /**
+   * Index of the active step; equals `steps.length` once every step is done
+   */
+  currentStep: number;
+  history: SigningWorkflowHistoryEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Where workflow state is kept between calls and restarts
+ */
+export interface SigningWorkflowStorage {
+  load(id: string): Promise<SigningWorkflowState | undefined>;
+  save(state: SigningWorkflowState): Promise<void>;
+  /**
+   * Find the workflow one of whose steps uses the signature request (numeric ID or UUID)
+   */
+  findByRequestId(requestId: string): Promise<SigningWorkflowState | undefined>;
+}
+
+// ============================================================================
+// Reminder Types
+// ============================================================================
+
+/**
+ * Shorter cooldown as the deadline approaches
+ */
+export interface ReminderEscalation {
+  /**
+   * Applies once the deadline is at most this many milliseconds away
+   */
+  beforeDueMs: number;
+
+  /**
+   * Minimum time between reminders while this rule applies
+   */
+  cooldownMs: number;
+
+  /**
+   * Passed to the channel, e.g. to pick an email template
+   */
+  level: string;
+}
+
+export interface SignerReminder {
+  request: SignatureRequest;
+  signer: Signer;
+  /**
+   * `normal`, or the level of the matching escalation rule
+   */
+  level: string;
+  /**
+   * Last reminder (or the invitation, when never reminded)
+   */
+  lastContactAt?: string;
+}
+
+/**
+ * Delivers reminders
+ * The Chaindoc API has no remind endpoint, so this is your own email or messaging service
+ */
+export interface ReminderChannel {
+  send(reminder: SignerReminder): Promise<void> | void;
+}
+
+/**
+ * `timeout`, `headers`, `retry` and `priority` apply to every page request of the scan
+ */
+export interface RunRemindersOptions extends CallOptions {
+  channel: ReminderChannel;
+
+  /**
+   * Minimum time between reminders to the same signer
+   * @default 86400000 (24 hours)
+   */
+  cooldownMs?: number;
+
+  /**
+   * @default 12h cooldown ("soon") within 3 days of the deadline, 4h ("final") within 24 hours
+   */
+  escalation?: ReminderEscalation[];
+
+  /**
+   * When your channel last reminded a signer, e.g. from a table your channel writes to
+   * Required, as `Signer.remindedAt` only tracks reminders sent by Chaindoc: without
+   * it, every run would remind each signer again once the first cooldown has passed
+   */
+  lastRemindedAt: (
+    request: SignatureRequest,
+    signer: Signer
+  ) => Promise<Date | undefined> | Date | undefined;
+
+  /**
+   * Only consider matching requests
+   */
+  filter?: (request: SignatureRequest) => boolean;
+
+  /**
+   * Report who would be reminded without calling the channel
+   */
+  dryRun?: boolean;
+
+  /**
+   * Stops the scan before the next page or reminder, cancelling the page request in flight
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * - sent / dry_run: reminded, or would be
+ * - cooldown: reminded too recently
+ * - overdue: the deadline has passed
+ * - failed: the channel threw
+ */
+export type ReminderOutcome =
+  | "sent"
+  | "dry_run"
+  | "cooldown"
+  | "overdue"
+  | "failed";
+
+export interface ReminderReportEntry {
+  requestId: number;
+  requestUuid: string;
+  signerEmail: string;
+  dueDate: string;
+  outcome: ReminderOutcome;
+  level?: string;
+  /**
+   * Earliest time the signer can be reminded again (`cooldown` only)
+   */
+  nextReminderAt?: string;
+  error?: unknown;
+}
+
+export interface ReminderReport {
+  dryRun: boolean;
+  startedAt: string;
+  finishedAt: string;
+  scannedRequests: number;
+  /**
+   * `sent` or `dry_run` entries
+   */
+  reminded: number;
+  skipped: number;
+  failed: number;
+  entries: ReminderReportEntry[];
+}
+
 // ============================================================================
 // Embedded Session Types
 // ============================================================================
@@ -443,3 +1533,130 @@ export interface HealthCheckResponse {
   apiKeyValid: boolean;
   userId: number;
 }
+
+// ============================================================================
+// Webhook Types
+// ============================================================================
+
+export type WebhookEventType =
+  | "signature.completed"
+  | "signature.expired"
+  | "signature.cancelled"
+  | "document.verified"
+  | "document.verification_failed"
+  | "session.created";
+
+export interface WebhookEventBase<TType extends WebhookEventType, TData> {
+  id: string;
+  type: TType;
+  /**
+   * ISO timestamp of when the event was emitted
+   * Used to reject replayed deliveries
+   */
+  createdAt: string;
+  data: TData;
+}
+
+export interface SignatureCompletedEventData {
+  requestId: string;
+  signatureId: number;
+  signerEmail: string;
+  signedAt: string;
+  status?: SignRequestStatus;
+}
+
+export interface SignatureExpiredEventData {
+  requestId: string;
+  versionId: string;
+  dueDate?: string;
+}
+
+export interface SignatureCancelledEventData {
+  requestId: string;
+  versionId: string;
+}
+
+export interface DocumentVerifiedEventData {
+  documentId: string;
+  versionId: string;
+  txHash: string;
+  chainId: number;
+  txStatus?: VerificationTxStatus;
+  verifiedAt?: string;
+}
+
+export interface DocumentVerificationFailedEventData {
+  documentId: string;
+  versionId: string;
+  txHash?: string;
+  reason?: string;
+}
+
+export interface SessionCreatedEventData {
+  sessionId: string;
+  email: string;
+  expiresAt: string;
+  metadata: Record<string, unknown>;
+}
+
+export type SignatureCompletedEvent = WebhookEventBase<
+  "signature.completed",
+  SignatureCompletedEventData
+>;
+export type SignatureExpiredEvent = WebhookEventBase<
+  "signature.expired",
+  SignatureExpiredEventData
+>;
+export type SignatureCancelledEvent = WebhookEventBase<
+  "signature.cancelled",
+  SignatureCancelledEventData
+>;
+export type DocumentVerifiedEvent = WebhookEventBase<
+  "document.verified",
+  DocumentVerifiedEventData
+>;
+export type DocumentVerificationFailedEvent = WebhookEventBase<
+  "document.verification_failed",
+  DocumentVerificationFailedEventData
+>;
+export type SessionCreatedEvent = WebhookEventBase<
+  "session.created",
+  SessionCreatedEventData
+>;
+
+/**
+ * Discriminated union of all webhook events, narrowed by `type`
+ */
+export type WebhookEvent =
+  | SignatureCompletedEvent
+  | SignatureExpiredEvent
+  | SignatureCancelledEvent
+  | DocumentVerifiedEvent
+  | DocumentVerificationFailedEvent
+  | SessionCreatedEvent;
+
+/**
+ * Event of a type added after this SDK version, returned by `constructEvent` as received
+ * Kept out of `WebhookEvent` so `switch (event.type)` still narrows `data`; such events
+ * reach the `default:` branch
+ */
+export interface UnknownWebhookEvent {
+  id: string;
+  type: string;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export interface ConstructWebhookEventOptions {
+  /**
+   * Overrides the secret configured on the Webhooks instance
+   */
+  secret?: string;
+
+  /**
+   * Maximum age of an event in seconds before it is rejected as a replay
+   * Set to 0 to disable the check
+   * @default 300
+   */
+  tolerance?: number;
+}
@@ -0,0 +1,94 @@
+import { Readable } from "node:stream";
+import { describe, expect, it } from "vitest";
+import { Chaindoc } from "./chaindoc";
+import { UploadValidationError } from "./errors";
+import { prepareFiles } from "./uploads";
+import { FakeChaindocServer } from "./testing";
+
+const PDF = new TextEncoder().encode("%PDF-1.4\n");
+
+function pdfStream(size: number, chunkSize = 1024): Readable {
+  const chunks: Uint8Array[] = [PDF];
+  for (let sent = PDF.length; sent < size; sent += chunkSize) {
+    chunks.push(new Uint8Array(Math.min(chunkSize, size - sent)));
+  }
+  return Readable.from(chunks);
+}
+
+describe("media.upload", () => {
+  it("streams a file to the API", async () => {
+    const fake = new FakeChaindocServer();
+    const chaindoc = new Chaindoc({
+      secretKey: "sk_test_fake",
+      fetch: fake.fetch,
+    });
+
+    const { media } = await chaindoc.media.upload([
+      { data: pdfStream(10_000), filename: "contract.pdf" },
+    ]);
+
+    expect(media).toHaveLength(1);
+    expect(media[0]!.type).toBe("document");
+  });
+
+  it("rejects a stream once it exceeds maxFileSize", async () => {
+    const fake = new FakeChaindocServer();
+    const chaindoc = new Chaindoc({
+      secretKey: "sk_test_fake",
+      fetch: fake.fetch,
+    });
+
+    const upload = chaindoc.media.upload(
+      [{ data: pdfStream(10_000), filename: "contract.pdf" }],
+      { maxFileSize: 5_000 }
+    );
+
+    await expect(upload).rejects.toBeInstanceOf(UploadValidationError);
+    await expect(upload).rejects.toMatchObject({
+      reason: "too_large",
+      filename: "contract.pdf",
+    });
+  });
+
+  it("rejects a file of unsupported type before sending", async () => {
+    const fake = new FakeChaindocServer();
+    const chaindoc = new Chaindoc({
+      secretKey: "sk_test_fake",
+      fetch: fake.fetch,
+    });
+
+    await expect(
+      chaindoc.media.upload([
+        { data: new TextEncoder().encode("a,b\n1,2\n"), filename: "data.csv" },
+      ])
+    ).rejects.toMatchObject({ reason: "unsupported_type" });
+    expect(fake.requests).toHaveLength(0);
+  });
+});
+
+describe("prepareFiles", () => {
+  it("rejects a file of known size over maxFileSize", async () => {
+    await expect(
+      prepareFiles([new Blob([PDF, new Uint8Array(100)])], { maxFileSize: 50 })
+    ).rejects.toMatchObject({ reason: "too_large" });
+  });
+
+  it("rejects an empty file", async () => {
+    await expect(
+      prepareFiles([{ data: new Uint8Array(), filename: "empty.pdf" }])
+    ).rejects.toMatchObject({ reason: "empty" });
+  });
+
+  it("replays the bytes read for detection ahead of the stream", async () => {
+    const [file] = await prepareFiles([
+      { data: pdfStream(10_000), filename: "contract.pdf" },
+    ]);
+
+    let size = 0;
+    for await (const chunk of file!.read()) {
+      size += chunk.byteLength;
+    }
+    expect(file!.contentType).toBe("application/pdf");
+    expect(size).toBe(10_000);
+  });
+});
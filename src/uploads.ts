@@ -0,0 +1,339 @@
+/**
+ * Upload sources and streaming multipart encoding
+ *
+ * Files are checked from their leading bytes before anything is sent, then
+ * streamed into the request body so large files are never buffered whole.
+ */
+
+import { randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { open, stat } from "node:fs/promises";
+import { basename } from "node:path";
+import { Readable } from "node:stream";
+import { UploadValidationError } from "./errors";
+import { SNIFF_LENGTH, detectMediaType } from "./media-types";
+import type { UploadInput, UploadOptions, UploadSource } from "./types";
+
+const DEFAULT_FILENAME = "blob";
+const FALLBACK_CONTENT_TYPE = "application/octet-stream";
+
+/**
+ * File ready to be written into a multipart body
+ */
+export interface PreparedFile {
+  filename: string;
+  contentType: string;
+  size?: number;
+  /**
+   * False for streams, which can only be read once
+   */
+  replayable: boolean;
+  read(): AsyncIterable<Uint8Array> | Iterable<Uint8Array>;
+}
+
+export interface MultipartBody {
+  contentType: string;
+  /**
+   * Byte length of the whole body; only known when no file is a stream
+   */
+  contentLength?: number;
+  replayable: boolean;
+  /**
+   * Create the body stream; called once per attempt
+   */
+  open(): ReadableStream<Uint8Array>;
+}
+
+interface LoadedSource {
+  filename: string;
+  declaredType?: string;
+  size?: number;
+  head: Uint8Array;
+  replayable: boolean;
+  read(): AsyncIterable<Uint8Array> | Iterable<Uint8Array>;
+  /**
+   * Release a partially read stream when the upload is abandoned
+   */
+  discard?(): void;
+}
+
+async function loadPath(path: string): Promise<LoadedSource> {
+  const { size } = await stat(path);
+  const handle = await open(path, "r");
+  let head: Uint8Array;
+  try {
+    const { buffer, bytesRead } = await handle.read(
+      new Uint8Array(Math.min(SNIFF_LENGTH, size)),
+      0,
+      Math.min(SNIFF_LENGTH, size),
+      0
+    );
+    head = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+
+  return {
+    filename: basename(path),
+    size,
+    head,
+    replayable: true,
+    read: () => createReadStream(path),
+  };
+}
+
+async function loadBlob(
+  blob: Blob,
+  filename: string,
+  declaredType = blob.type || undefined
+): Promise<LoadedSource> {
+  return {
+    filename,
+    declaredType,
+    size: blob.size,
+    head: new Uint8Array(await blob.slice(0, SNIFF_LENGTH).arrayBuffer()),
+    replayable: true,
+    read: () => Readable.fromWeb(blob.stream()),
+  };
+}
+
+/**
+ * Read just enough of a stream to detect its type
+ * The buffered chunks are replayed ahead of the rest of the stream
+ */
+async function loadStream(
+  stream: Readable,
+  source: UploadSource
+): Promise<LoadedSource> {
+  const iterator: AsyncIterator<Uint8Array> = stream[Symbol.asyncIterator]();
+  const buffered: Uint8Array[] = [];
+  let length = 0;
+  let ended = false;
+
+  while (length < SNIFF_LENGTH) {
+    const next = await iterator.next();
+    if (next.done) {
+      ended = true;
+      break;
+    }
+    buffered.push(next.value);
+    length += next.value.byteLength;
+  }
+
+  return {
+    filename: source.filename,
+    declaredType: source.contentType,
+    size: ended ? length : source.size,
+    head: Buffer.concat(buffered).subarray(0, SNIFF_LENGTH),
+    replayable: false,
+    read: async function* () {
+      yield* buffered;
+      if (ended) {
+        return;
+      }
+      for (let next = await iterator.next(); !next.done; ) {
+        yield next.value;
+        next = await iterator.next();
+      }
+    },
+    discard: () => stream.destroy(),
+  };
+}
+
+function loadInput(input: UploadInput | string): Promise<LoadedSource> {
+  if (typeof input === "string") {
+    return loadPath(input);
+  }
+  if (input instanceof Blob) {
+    return loadBlob(
+      input,
+      "name" in input && typeof input.name === "string"
+        ? input.name
+        : DEFAULT_FILENAME
+    );
+  }
+
+  const { data, filename, contentType } = input;
+  if (data instanceof Uint8Array) {
+    return Promise.resolve({
+      filename,
+      declaredType: contentType,
+      size: data.byteLength,
+      head: data.subarray(0, SNIFF_LENGTH),
+      replayable: true,
+      read: () => [data],
+    });
+  }
+  if (data instanceof Blob) {
+    return loadBlob(data, filename, contentType ?? (data.type || undefined));
+  }
+  return loadStream(
+    data instanceof ReadableStream ? Readable.fromWeb(data) : data,
+    input
+  );
+}
+
+/**
+ * Pick the Content-Type for a file, rejecting it when checks fail
+ */
+function resolveContentType(
+  source: LoadedSource,
+  options: UploadOptions
+): string {
+  const { filename, size } = source;
+
+  if (
+    options.maxFileSize !== undefined &&
+    size !== undefined &&
+    size > options.maxFileSize
+  ) {
+    throw new UploadValidationError(
+      `${filename} exceeds the maximum file size of ${options.maxFileSize} bytes`,
+      filename,
+      "too_large"
+    );
+  }
+
+  const detected = detectMediaType(source.head, filename);
+  if (options.validate === false) {
+    return detected ?? source.declaredType ?? FALLBACK_CONTENT_TYPE;
+  }
+
+  if (source.head.length === 0) {
+    throw new UploadValidationError(`${filename} is empty`, filename, "empty");
+  }
+  if (!detected) {
+    throw new UploadValidationError(
+      `${filename} is not a supported file type`,
+      filename,
+      "unsupported_type"
+    );
+  }
+  return detected;
+}
+
+/**
+ * Load and check every file before any bytes are sent
+ * A string input is treated as a file path
+ */
+export async function prepareFiles(
+  inputs: Array<UploadInput | string>,
+  options: UploadOptions = {}
+): Promise<PreparedFile[]> {
+  const loaded: LoadedSource[] = [];
+  try {
+    // Sequential so a stream is never left half-read by a sibling's failure
+    for (const input of inputs) {
+      loaded.push(await loadInput(input));
+    }
+    return loaded.map((source) => ({
+      filename: source.filename,
+      contentType: resolveContentType(source, options),
+      size: source.size,
+      replayable: source.replayable,
+      read: source.read,
+    }));
+  } catch (error) {
+    loaded.forEach((source) => source.discard?.());
+    throw error;
+  }
+}
+
+/**
+ * Quote a filename for a Content-Disposition header, as browsers do for FormData
+ */
+function escapeFilename(filename: string): string {
+  return filename
+    .replace(/\n/g, "%0A")
+    .replace(/\r/g, "%0D")
+    .replace(/"/g, "%22");
+}
+
+/**
+ * Encode files as a multipart/form-data body that is streamed, not buffered
+ *
+ * Reports progress per file and enforces `maxFileSize` for streams whose
+ * size was not known up front.
+ */
+export function createMultipartBody(
+  files: PreparedFile[],
+  fieldName: string,
+  options: Pick<UploadOptions, "onProgress" | "maxFileSize"> = {}
+): MultipartBody {
+  const boundary = `----chaindoc-${randomUUID()}`;
+  const encoder = new TextEncoder();
+  const partHeaders = files.map((file) =>
+    encoder.encode(
+      `--${boundary}\r\n` +
+        `Content-Disposition: form-data; name="${fieldName}"; filename="${escapeFilename(
+          file.filename
+        )}"\r\n` +
+        `Content-Type: ${file.contentType}\r\n\r\n`
+    )
+  );
+  const partEnd = encoder.encode("\r\n");
+  const closing = encoder.encode(`--${boundary}--\r\n`);
+
+  // Stream sizes are caller-declared, so a stream body is sent chunked
+  const replayable = files.every((file) => file.replayable);
+  const contentLength = replayable
+    ? files.reduce(
+        (total, file, index) =>
+          total +
+          partHeaders[index]!.byteLength +
+          (file.size ?? 0) +
+          partEnd.byteLength,
+        closing.byteLength
+      )
+    : undefined;
+
+  async function* encode(): AsyncGenerator<Uint8Array> {
+    for (const [fileIndex, file] of files.entries()) {
+      yield partHeaders[fileIndex]!;
+
+      let loaded = 0;
+      for await (const chunk of file.read()) {
+        loaded += chunk.byteLength;
+        if (options.maxFileSize !== undefined && loaded > options.maxFileSize) {
+          throw new UploadValidationError(
+            `${file.filename} exceeds the maximum file size of ${options.maxFileSize} bytes`,
+            file.filename,
+            "too_large"
+          );
+        }
+        yield chunk;
+        options.onProgress?.({
+          fileIndex,
+          filename: file.filename,
+          loaded,
+          total: file.size,
+        });
+      }
+
+      yield partEnd;
+    }
+    yield closing;
+  }
+
+  return {
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    contentLength,
+    replayable,
+    open: () => {
+      const chunks = encode();
+      return new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const next = await chunks.next();
+          if (next.done) {
+            controller.close();
+          } else {
+            controller.enqueue(next.value);
+          }
+        },
+        async cancel() {
+          await chunks.return(undefined);
+        },
+      });
+    },
+  };
+}